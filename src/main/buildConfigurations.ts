@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isIgnoredEntry } from './fileSystem';
+import type { BuildConfiguration } from '../shared/types';
+
+// The configuration a project opens with when none has been chosen yet
+const DEFAULT_CONFIGURATION = 'rtecdc';
+
+// .opt files sit next to the makefiles, a few directories below the root at most
+const MAX_DISCOVERY_DEPTH = 3;
+
+// What is remembered for one project
+interface ProjectConfigurations {
+  active?: string;       // name of the selected configuration
+  registered: string[];  // .opt files added with Load Cflags (absolute paths)
+}
+
+// Named build configurations (one .opt file each) of every opened project. The
+// selection and manually registered files are persisted as JSON in storePath.
+export class BuildConfigurationStore {
+  private storePath: string;
+  private projects: Record<string, ProjectConfigurations> = {};
+
+  constructor(storePath: string) {
+    this.storePath = storePath;
+    try {
+      this.projects = JSON.parse(fs.readFileSync(storePath, 'utf-8'));
+    } catch {
+      // First run, or an unreadable file: start over
+      this.projects = {};
+    }
+  }
+
+  // .opt files found under the project plus the ones registered by hand, sorted by name
+  async list(projectPath: string): Promise<BuildConfiguration[]> {
+    const optPaths = await this.discover(projectPath, 0);
+    const registered = (this.projects[projectPath]?.registered ?? []).filter(p => fs.existsSync(p));
+    registered.forEach(p => {
+      if (!optPaths.includes(p)) optPaths.push(p);
+    });
+
+    const configurations: BuildConfiguration[] = [];
+    for (const optPath of optPaths) {
+      const relative = path.relative(projectPath, optPath);
+      // Files outside the project are named after the file alone
+      let name = (relative.startsWith('..') || path.isAbsolute(relative) ? path.basename(optPath) : relative)
+        .replace(/\.opt$/i, '')
+        .split(path.sep)
+        .join('/');
+      if (configurations.some(c => c.name === name)) {
+        name = optPath;
+      }
+      configurations.push({ name, optPath });
+    }
+
+    return configurations.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // The persisted choice while it still exists, otherwise rtecdc or the first one
+  getActive(projectPath: string, configurations: BuildConfiguration[]): BuildConfiguration | null {
+    const saved = this.projects[projectPath]?.active;
+    return configurations.find(c => c.name === saved)
+      ?? configurations.find(c => c.name === DEFAULT_CONFIGURATION)
+      ?? configurations[0]
+      ?? null;
+  }
+
+  setActive(projectPath: string, name: string): void {
+    this.project(projectPath).active = name;
+    this.write();
+  }
+
+  // Add an .opt file that discovery does not find (outside the project, or too deep)
+  register(projectPath: string, optPath: string): void {
+    const project = this.project(projectPath);
+    if (!project.registered.includes(optPath)) {
+      project.registered.push(optPath);
+      this.write();
+    }
+  }
+
+  private project(projectPath: string): ProjectConfigurations {
+    if (!this.projects[projectPath]) {
+      this.projects[projectPath] = { registered: [] };
+    }
+    return this.projects[projectPath];
+  }
+
+  private async discover(dirPath: string, depth: number): Promise<string[]> {
+    const found: string[] = [];
+    try {
+      const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+      for (const entry of entries) {
+        if (isIgnoredEntry(entry.name)) continue;
+
+        const fullPath = path.join(dirPath, entry.name);
+        if (entry.isDirectory()) {
+          if (depth < MAX_DISCOVERY_DEPTH) {
+            found.push(...await this.discover(fullPath, depth + 1));
+          }
+        } else if (entry.name.toLowerCase().endsWith('.opt')) {
+          found.push(fullPath);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to search for build configurations:', dirPath, err);
+    }
+    return found;
+  }
+
+  private write(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+      fs.writeFileSync(this.storePath, JSON.stringify(this.projects, null, 2));
+    } catch (err) {
+      console.error('Failed to save build configurations:', err);
+    }
+  }
+}
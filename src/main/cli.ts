@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+// Headless front end: builds and queries the symbol database without a window,
+// for CI jobs and scripts. Run with `node dist/src/main/cli.js <command> ...`.
+import * as path from 'path';
+import { SymbolParser } from './symbolParser';
+import { SymbolDatabase, DatabaseOpenError } from './symbolDatabase';
+import { readOptFile } from './optFile';
+import { attachPreviews } from './fileSystem';
+import type { BuildProgress, OptFile, ParserBackend, Symbol } from '../shared/types';
+
+const USAGE = `Usage: source-viewer <command> [options]
+
+Commands:
+  index <dir>     Build or update the symbol database of <dir> (.sourceviewer.db)
+  def <name>      Definitions of a symbol
+  refs <name>     Occurrences of an identifier
+  stats           Symbol counts of the database
+  cflags <opt>    Defines, undefines and include directories of an .opt file
+
+Options:
+  -p, --project <dir>   Project root to query (default: current directory)
+  --cflags <opt>        Build configuration marking symbols under #if as compiled out
+  --backend <name>      Parser for index: regex (default) or tree-sitter
+  --full                Parse every file again instead of only changed ones
+  --json                Print JSON instead of text
+  -h, --help            Show this help`;
+
+const PARSER_BACKENDS: ParserBackend[] = ['regex', 'tree-sitter'];
+
+interface CliOptions {
+  project: string;
+  cflags?: string;
+  backend: ParserBackend;
+  full: boolean;
+  json: boolean;
+}
+
+// Wrong usage; reported with the usage text and exit code 2
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): { command?: string; args: string[]; options: CliOptions } {
+  const options: CliOptions = { project: process.cwd(), backend: 'regex', full: false, json: false };
+  const positional: string[] = [];
+
+  const valueOf = (flag: string, i: number) => {
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('-')) {
+      throw new UsageError(`${flag} needs a value`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '-p':
+      case '--project':
+        options.project = path.resolve(valueOf(arg, i++));
+        break;
+      case '--cflags':
+        options.cflags = path.resolve(valueOf(arg, i++));
+        break;
+      case '--backend': {
+        const backend = valueOf(arg, i++) as ParserBackend;
+        if (!PARSER_BACKENDS.includes(backend)) {
+          throw new UsageError(`unknown parser backend '${backend}'`);
+        }
+        options.backend = backend;
+        break;
+      }
+      case '--full':
+        options.full = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '-h':
+      case '--help':
+        return { args: [], options };
+      default:
+        if (arg.startsWith('-')) {
+          throw new UsageError(`unknown option '${arg}'`);
+        }
+        positional.push(arg);
+    }
+  }
+
+  const [command, ...args] = positional;
+  return { command, args, options };
+}
+
+function requireArgument(args: string[], what: string): string {
+  if (args.length !== 1) {
+    throw new UsageError(`expected ${what}`);
+  }
+  return args[0];
+}
+
+function printJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+}
+
+function relative(options: CliOptions, filePath: string): string {
+  const rel = path.relative(options.project, filePath);
+  return rel.startsWith('..') ? filePath : rel;
+}
+
+// -I paths in the .opt file are relative to the project root, as in the window
+function loadCflags(options: CliOptions, optPath: string): OptFile {
+  return readOptFile(optPath, options.project);
+}
+
+// --cflags: the configuration's defines decide which symbols are compiled out
+function applyCflags(parser: SymbolParser, options: CliOptions): void {
+  if (!options.cflags) return;
+  const optFile = loadCflags(options, options.cflags);
+  parser.setDefines(optFile.defines);
+  parser.setIncludeDirectories(optFile.includeDirs);
+}
+
+// Parser of the project with its built database loaded
+async function openProject(options: CliOptions): Promise<SymbolParser> {
+  const parser = new SymbolParser();
+  applyCflags(parser, options);
+  if (!(await parser.loadSymbolDatabase(options.project))) {
+    throw new Error(`no symbol database in ${options.project}; run 'index' first`);
+  }
+  return parser;
+}
+
+// Progress goes to stderr, and only to a terminal, so stdout stays clean for scripts
+function reportProgress(progress: BuildProgress): void {
+  if (!process.stderr.isTTY) return;
+
+  const text = progress.phase === 'parsing'
+    ? `Parsing ${progress.current}/${progress.total}${progress.currentFile ? ` ${progress.currentFile}` : ''}`
+    : progress.phase === 'complete' ? '' : `${progress.phase[0].toUpperCase()}${progress.phase.substring(1)}...`;
+  process.stderr.write(`\r\x1b[K${text}`);
+}
+
+async function runIndex(args: string[], options: CliOptions): Promise<number> {
+  const dirPath = path.resolve(requireArgument(args, 'a directory'));
+  options.project = dirPath;
+
+  const parser = new SymbolParser();
+  parser.setParserBackend(options.backend);
+  applyCflags(parser, options);
+
+  const summary = await parser.buildSymbolDatabase(dirPath, reportProgress, options.full);
+  if (options.json) {
+    printJson({ project: dirPath, backend: options.backend, ...summary });
+  } else {
+    console.log(`Indexed ${dirPath}: ${summary.parsedFiles} file(s) parsed, ${summary.skippedFiles} unchanged ` +
+      `file(s) skipped, ${summary.removedFiles} deleted file(s) removed, ${summary.totalSymbols} symbol(s)`);
+  }
+  return 0;
+}
+
+function formatSymbol(options: CliOptions, symbol: Symbol): string {
+  const inactive = symbol.active === false ? ' (compiled out)' : '';
+  const description = symbol.signature ?? symbol.qualifiedName ?? symbol.name;
+  return `${relative(options, symbol.filePath)}:${symbol.line}:${symbol.column}: ${symbol.kind}${inactive} ${description}`;
+}
+
+// Exit code 1 when nothing is found, like grep
+async function runDef(args: string[], options: CliOptions): Promise<number> {
+  const name = requireArgument(args, 'a symbol name');
+  const parser = await openProject(options);
+
+  const definitions = parser.findDefinition(name);
+  if (options.json) {
+    printJson(definitions);
+  } else {
+    definitions.forEach(symbol => console.log(formatSymbol(options, symbol)));
+  }
+  return definitions.length > 0 ? 0 : 1;
+}
+
+async function runRefs(args: string[], options: CliOptions): Promise<number> {
+  const name = requireArgument(args, 'a symbol name');
+  const parser = await openProject(options);
+
+  const references = await attachPreviews(parser.findReferences(name));
+  if (options.json) {
+    printJson(references);
+  } else {
+    references.forEach(ref => console.log(`${relative(options, ref.filePath)}:${ref.line}:${ref.column}: ${ref.preview ?? ''}`));
+  }
+  return references.length > 0 ? 0 : 1;
+}
+
+async function runStats(args: string[], options: CliOptions): Promise<number> {
+  if (args.length > 0) {
+    throw new UsageError('stats takes no arguments');
+  }
+
+  const database = new SymbolDatabase();
+  if (!database.exists(options.project)) {
+    throw new Error(`no symbol database in ${options.project}; run 'index' first`);
+  }
+  await database.open(options.project);
+  const stats = { ...database.getStats(), files: database.getFileRecords(options.project).size };
+  const build = database.getBuildInfo();
+  database.close();
+
+  if (options.json) {
+    printJson({ project: options.project, ...stats, ...build });
+  } else {
+    console.log(`${options.project}: ${stats.totalSymbols} symbol(s) in ${stats.files} file(s)`);
+    console.log(`  schema ${build.schemaVersion}, parser ${build.parserVersion ?? 'unknown'} (${build.parserBackend ?? 'unknown'}), ` +
+      `built ${build.builtAt !== undefined ? new Date(build.builtAt).toISOString() : 'unknown'}`);
+    Object.entries(stats.byKind)
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([kind, count]) => console.log(`  ${kind.padEnd(12)} ${count}`));
+  }
+  return 0;
+}
+
+async function runCflags(args: string[], options: CliOptions): Promise<number> {
+  const optFile = loadCflags(options, path.resolve(requireArgument(args, 'an .opt file')));
+
+  if (options.json) {
+    printJson(optFile);
+  } else {
+    Object.entries(optFile.defines).forEach(([name, value]) => console.log(value === null ? `-D${name}` : `-D${name}=${value}`));
+    optFile.undefines.forEach(name => console.log(`-U${name}`));
+    optFile.includeDirs.forEach(dir => console.log(`-I${dir}`));
+    optFile.forcedIncludes.forEach(file => console.log(`-include ${file}`));
+  }
+  return 0;
+}
+
+const COMMANDS: Record<string, (args: string[], options: CliOptions) => Promise<number>> = {
+  index: runIndex,
+  def: runDef,
+  refs: runRefs,
+  stats: runStats,
+  cflags: runCflags,
+};
+
+async function main(argv: string[]): Promise<number> {
+  try {
+    const { command, args, options } = parseArgs(argv);
+    if (!command) {
+      console.log(USAGE);
+      return argv.length === 0 ? 2 : 0;
+    }
+    if (!COMMANDS[command]) {
+      throw new UsageError(`unknown command '${command}'`);
+    }
+    return await COMMANDS[command](args, options);
+  } catch (err) {
+    if (err instanceof UsageError) {
+      console.error(`source-viewer: ${err.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (err instanceof DatabaseOpenError) {
+      // 'index' replaces a database it cannot use
+      console.error(`source-viewer: ${err.message}; run 'index' to rebuild it`);
+      return 1;
+    }
+    console.error(`source-viewer: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
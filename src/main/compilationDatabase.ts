@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseCompilerOptions } from './optFile';
+import type { FileFlags } from '../shared/types';
+
+// Where CMake and Bear usually leave the compilation database, relative to the project root
+const CANDIDATE_PATHS = ['compile_commands.json', path.join('build', 'compile_commands.json')];
+
+// One entry of compile_commands.json
+interface CompileCommand {
+  directory: string;
+  file: string;
+  arguments?: string[];
+  command?: string;
+}
+
+// Split a "command" string the way a POSIX shell would: quotes group words and
+// backslashes escape the next character
+function splitCommand(command: string): string[] {
+  const words: string[] = [];
+  let current = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+    if (quote === "'") {
+      if (ch === "'") quote = null;
+      else current += ch;
+    } else if (ch === '\\' && i + 1 < command.length && (quote === null || '"\\$`'.includes(command[i + 1]))) {
+      current += command[++i];
+      inWord = true;
+    } else if (quote === '"') {
+      if (ch === '"') quote = null;
+      else current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      inWord = true;
+    } else if (/\s/.test(ch)) {
+      if (inWord) words.push(current);
+      current = '';
+      inWord = false;
+    } else {
+      current += ch;
+      inWord = true;
+    }
+  }
+  if (inWord) words.push(current);
+
+  return words;
+}
+
+// -D/-U applied in command-line order, -I directories resolved against the entry's directory
+function flagsOf(command: CompileCommand, sourceFile: string): FileFlags {
+  const words = command.arguments ?? splitCommand(command.command ?? '');
+  const flags: FileFlags = { defines: {}, includeDirs: [], sourceFile };
+
+  for (const option of parseCompilerOptions(words.slice(1), 0, false)) {
+    if (option.kind === 'define' && option.name) {
+      flags.defines[option.name] = option.value ?? null;
+    } else if (option.kind === 'undefine' && option.name) {
+      delete flags.defines[option.name];
+    } else if (option.kind === 'includeDir' && option.value) {
+      const dir = path.resolve(command.directory, option.value);
+      if (!flags.includeDirs.includes(dir)) flags.includeDirs.push(dir);
+    }
+  }
+
+  return flags;
+}
+
+// compile_commands.json at the project root or in build/, or null
+export function findCompilationDatabase(projectPath: string): string | null {
+  for (const candidate of CANDIDATE_PATHS) {
+    const fullPath = path.join(projectPath, candidate);
+    if (fs.existsSync(fullPath)) return fullPath;
+  }
+  return null;
+}
+
+// Flags of every translation unit, keyed by absolute source path. A file compiled
+// more than once keeps its first entry.
+export function readCompilationDatabase(filePath: string): Map<string, FileFlags> {
+  const commands: CompileCommand[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(commands)) {
+    throw new Error(`${filePath} is not a compilation database`);
+  }
+
+  const flagsByFile = new Map<string, FileFlags>();
+  for (const command of commands) {
+    if (!command || typeof command.file !== 'string' || typeof command.directory !== 'string') continue;
+
+    const sourceFile = path.resolve(command.directory, command.file);
+    if (!flagsByFile.has(sourceFile)) {
+      flagsByFile.set(sourceFile, flagsOf(command, sourceFile));
+    }
+  }
+
+  return flagsByFile;
+}
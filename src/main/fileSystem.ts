@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import type { FileNode, FileContent } from '../shared/types';
+import type { FileNode, FileContent, SymbolReference } from '../shared/types';
 
 // Supported file extensions
 const SUPPORTED_EXTENSIONS = ['.c', '.cpp', '.cc', '.cxx', '.h', '.hpp', '.py'];
@@ -10,6 +10,15 @@ export function isSupportedFile(filePath: string): boolean {
   return SUPPORTED_EXTENSIONS.includes(ext);
 }
 
+// Hidden entries and common directories that are left out of the file tree
+export function isIgnoredEntry(name: string): boolean {
+  return name.startsWith('.') ||
+    name === 'node_modules' ||
+    name === '__pycache__' ||
+    name === 'build' ||
+    name === 'dist';
+}
+
 export function getLanguageFromExtension(filePath: string): string {
   const ext = path.extname(filePath).toLowerCase();
   
@@ -52,11 +61,7 @@ export async function buildFileTree(dirPath: string): Promise<FileNode> {
   
   for (const entry of entries) {
     // Skip hidden files and common directories to ignore
-    if (entry.name.startsWith('.') || 
-        entry.name === 'node_modules' || 
-        entry.name === '__pycache__' ||
-        entry.name === 'build' ||
-        entry.name === 'dist') {
+    if (isIgnoredEntry(entry.name)) {
       continue;
     }
     
@@ -90,3 +95,22 @@ export async function buildFileTree(dirPath: string): Promise<FileNode> {
     children,
   };
 }
+
+// Attach the source line of each occurrence, reading each file only once
+export async function attachPreviews(references: SymbolReference[]): Promise<SymbolReference[]> {
+  const fileLines = new Map<string, string[]>();
+  for (const ref of references) {
+    if (!fileLines.has(ref.filePath)) {
+      try {
+        const content = await fs.promises.readFile(ref.filePath, 'utf-8');
+        fileLines.set(ref.filePath, content.split(/\r?\n/));
+      } catch {
+        fileLines.set(ref.filePath, []);
+      }
+    }
+    const line = fileLines.get(ref.filePath)![ref.line - 1];
+    ref.preview = line !== undefined ? line.trim() : '';
+  }
+
+  return references;
+}
@@ -0,0 +1,335 @@
+// Source pre-processing shared by the parsers. Every function here keeps offsets
+// (and newlines) intact, so a position in the output maps onto the original text.
+
+import { evaluateConditionals, findInactiveLines, ConditionalBranch, Defines } from '../shared/preprocessor';
+
+// Blank comments and the contents of string/char literals in C/C++ source.
+// Quote characters are kept so `extern "C"` stays recognisable.
+export function stripCppCommentsAndStrings(content: string): string {
+  const out = content.split('');
+  let i = 0;
+
+  while (i < content.length) {
+    const ch = content[i];
+    const next = content[i + 1];
+
+    if (ch === '/' && next === '/') {
+      // Line comment; a trailing backslash continues it onto the next line
+      while (i < content.length && content[i] !== '\n') {
+        if (content[i] === '\\' && content[i + 1] === '\n') {
+          out[i] = ' ';
+          i += 2;
+          continue;
+        }
+        out[i++] = ' ';
+      }
+      continue;
+    }
+
+    if (ch === '/' && next === '*') {
+      out[i++] = ' ';
+      out[i++] = ' ';
+      while (i < content.length && !(content[i] === '*' && content[i + 1] === '/')) {
+        if (content[i] !== '\n') out[i] = ' ';
+        i++;
+      }
+      if (i < content.length) {
+        out[i++] = ' ';
+        out[i++] = ' ';
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      i++;
+      while (i < content.length && content[i] !== ch && content[i] !== '\n') {
+        if (content[i] === '\\' && i + 1 < content.length) {
+          out[i++] = ' ';
+          if (content[i] === '\n') {
+            i++;
+            continue;
+          }
+        }
+        out[i++] = ' ';
+      }
+      i++;
+      continue;
+    }
+
+    i++;
+  }
+
+  return out.join('');
+}
+
+// Blank the lines of #if/#elif/#else branches that are not compiled under `defines`.
+// With null defines only constant conditions such as "#if 0" are decided.
+// Expects code that already went through stripCppCommentsAndStrings.
+export function blankInactiveBranches(code: string, defines: Defines | null): string {
+  const lines = code.split('\n');
+  const inactive = findInactiveLines(lines, defines);
+  if (!inactive.includes(true)) return code;
+
+  return lines.map((line, i) => (inactive[i + 1] ? line.replace(/[^\r]/g, ' ') : line)).join('\n');
+}
+
+// Keep only the first possible branch of #if/#elif/#else chains that open or close
+// braces unevenly (`if (a > 1) {` under #ifdef and `if (a > 2) {` under #else), as
+// ctags does; matching braces across every branch would run past the function's end.
+// Chains whose branches each balance their braces are kept whole, so alternative
+// definitions under #ifdef/#else are still indexed.
+// Expects code that already went through blankInactiveBranches.
+export function blankUnbalancedAlternatives(code: string): string {
+  const lines = code.split('\n');
+  const branches = evaluateConditionals(lines, null);
+  if (!branches.some(branch => branch.directive === 'elif' || branch.directive === 'else')) return code;
+
+  // Content lines of a branch: after its directive, up to the #elif/#else/#endif ending it
+  const contentLines = (branch: ConditionalBranch) => {
+    const indexes: number[] = [];
+    for (let line = branch.contentLine; line < branch.endLine && line <= lines.length; line++) {
+      indexes.push(line - 1);
+    }
+    return indexes;
+  };
+  const braceBalance = (branch: ConditionalBranch) => contentLines(branch).reduce((balance, i) => {
+    for (const ch of lines[i]) {
+      if (ch === '{') balance++;
+      else if (ch === '}') balance--;
+    }
+    return balance;
+  }, 0);
+
+  // Innermost chains first, so a nested chain that was reduced no longer unbalances its parent
+  const maxDepth = Math.max(...branches.map(branch => branch.depth));
+  for (let depth = maxDepth; depth >= 0; depth--) {
+    const chains: ConditionalBranch[][] = [];
+    for (const branch of branches) {
+      if (branch.depth !== depth) continue;
+      if (branch.directive === 'elif' || branch.directive === 'else') {
+        chains[chains.length - 1]?.push(branch);
+      } else {
+        chains.push([branch]);
+      }
+    }
+
+    for (const chain of chains) {
+      const possible = chain.filter(branch => branch.active);
+      if (possible.length < 2 || possible.every(branch => braceBalance(branch) === 0)) continue;
+
+      for (const branch of possible.slice(1)) {
+        contentLines(branch).forEach(i => {
+          lines[i] = lines[i].replace(/[^\r]/g, ' ');
+        });
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// Blank preprocessor directives (including backslash continuations).
+// Expects code that already went through stripCppCommentsAndStrings.
+export function blankPreprocessorDirectives(code: string): string {
+  const out = code.split('');
+  let lineStart = true;
+  let i = 0;
+
+  while (i < code.length) {
+    const ch = code[i];
+
+    if (ch === '\n') {
+      lineStart = true;
+      i++;
+      continue;
+    }
+
+    if (lineStart && ch === '#') {
+      while (i < code.length && code[i] !== '\n') {
+        if (code[i] === '\\' && code[i + 1] === '\n') {
+          out[i] = ' ';
+          i += 2;
+          continue;
+        }
+        if (code[i] === '\\' && code[i + 1] === '\r' && code[i + 2] === '\n') {
+          out[i] = ' ';
+          out[i + 1] = ' ';
+          i += 3;
+          continue;
+        }
+        out[i++] = ' ';
+      }
+      continue;
+    }
+
+    if (ch !== ' ' && ch !== '\t' && ch !== '\r') {
+      lineStart = false;
+    }
+    i++;
+  }
+
+  return out.join('');
+}
+
+// Blank comments and string literals (including triple-quoted and prefixed ones) in Python source
+export function stripPythonCommentsAndStrings(content: string): string {
+  const out = content.split('');
+  let i = 0;
+
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (ch === '#') {
+      while (i < content.length && content[i] !== '\n') {
+        out[i++] = ' ';
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      // String prefixes such as r"", b'', f"" are part of the literal
+      let p = i - 1;
+      while (p >= 0 && /[rbfuRBFU]/.test(content[p]) && i - p <= 2) p--;
+      if (p < i - 1 && (p < 0 || !/\w/.test(content[p]))) {
+        for (let k = p + 1; k < i; k++) out[k] = ' ';
+      }
+
+      const triple = content.substr(i, 3) === ch.repeat(3);
+      const quote = triple ? ch.repeat(3) : ch;
+      i += quote.length;
+      while (i < content.length && content.substr(i, quote.length) !== quote) {
+        if (!triple && content[i] === '\n') break;
+        if (content[i] === '\\' && i + 1 < content.length) {
+          out[i++] = ' ';
+        }
+        if (content[i] !== '\n') out[i] = ' ';
+        i++;
+      }
+      i += quote.length;
+      continue;
+    }
+
+    i++;
+  }
+
+  return out.join('');
+}
+
+// Index of the brace closing the one at openIndex, or -1 when unbalanced
+export function findMatchingBrace(text: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+// Split text[start, end) on a separator that is not nested in (), [] or {}
+export function splitTopLevel(text: string, start: number, end: number, separator: string): Array<[number, number]> {
+  const segments: Array<[number, number]> = [];
+  let depth = 0;
+  let segmentStart = start;
+
+  for (let i = start; i < end; i++) {
+    const ch = text[i];
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if (ch === ')' || ch === ']' || ch === '}') depth--;
+    else if (ch === separator && depth === 0) {
+      segments.push([segmentStart, i]);
+      segmentStart = i + 1;
+    }
+  }
+  segments.push([segmentStart, end]);
+
+  return segments;
+}
+
+// A file-scope declaration: text[start, end) up to its ';', or up to the '{' of a function body
+export interface TopLevelStatement {
+  start: number;
+  end: number;
+  bodyEnd?: number;  // closing '}' of a function body
+}
+
+// Split blanked code into file-scope statements, tracking brace depth so nothing
+// inside a function body or initializer is reported. `extern "C" { }` and namespace
+// blocks are transparent; function bodies are skipped as a whole.
+// A [from, to) range scans the inside of a class/struct body the same way.
+export function scanTopLevelStatements(code: string, from: number = 0, to: number = code.length): TopLevelStatement[] {
+  const statements: TopLevelStatement[] = [];
+  let start = from;
+  let i = from;
+
+  while (i < to) {
+    const ch = code[i];
+
+    if (ch === ';') {
+      statements.push({ start, end: i });
+      start = i + 1;
+    } else if (ch === '}') {
+      // End of a transparent block
+      start = i + 1;
+    } else if (ch === '{') {
+      const header = code.substring(start, i);
+      if (/^\s*(?:extern\s*(?:"\s*"\s*)?|namespace(?:\s+[\w:]+)?\s*)$/.test(header)) {
+        start = i + 1;
+        i++;
+        continue;
+      }
+
+      const close = findMatchingBrace(code, i);
+      if (close === -1) break;
+
+      const isAggregate = /\b(?:struct|union|enum|class)\b[^()]*$/.test(header);
+      const isInitializer = /=\s*$/.test(header);
+      if (header.includes('(') && !isAggregate && !isInitializer) {
+        statements.push({ start, end: i, bodyEnd: close });
+        start = close + 1;
+      }
+      i = close + 1;
+      continue;
+    }
+    i++;
+  }
+
+  return statements;
+}
+
+export interface NamespaceRange {
+  name: string;   // '' for anonymous namespaces
+  start: number;  // opening '{'
+  end: number;    // closing '}'
+}
+
+// Every `namespace [name] { ... }` block in blanked code, outer blocks first
+export function findNamespaceRanges(code: string): NamespaceRange[] {
+  const ranges: NamespaceRange[] = [];
+  const pattern = /\bnamespace(?:\s+([\w:]+))?\s*\{/g;
+
+  let match;
+  while ((match = pattern.exec(code)) !== null) {
+    const start = match.index + match[0].length - 1;
+    const end = findMatchingBrace(code, start);
+    if (end === -1) break;
+    ranges.push({ name: match[1] || '', start, end });
+  }
+
+  return ranges;
+}
+
+// Index of the parenthesis closing the one at openIndex, or -1 when unbalanced
+export function findMatchingParen(text: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')') {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
@@ -1,55 +1,282 @@
 import { app, BrowserWindow, ipcMain, dialog, Menu } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
-import { readFileContent, buildFileTree } from './fileSystem';
+import { readFileContent, buildFileTree, attachPreviews } from './fileSystem';
 import { SymbolParser } from './symbolParser';
+import type { BuildSummary } from './symbolParser';
+import { DatabaseOpenError } from './symbolDatabase';
+import { ProjectWatcher } from './projectWatcher';
+import { BuildConfigurationStore } from './buildConfigurations';
+import { ProjectSettingsStore } from './projectSettings';
+import { readOptFile } from './optFile';
+import { findCompilationDatabase, readCompilationDatabase } from './compilationDatabase';
+import { readTagsFile } from './tagsImport';
+import { EXPORT_FILE_NAMES, formatSymbols, selectSymbols } from './symbolExport';
+import type {
+  DefinitionRequest, CallHierarchyItem, BuildConfiguration, BuildConfigurationState, OptFile,
+  FileFlags, ParserBackend, Symbol, SymbolExportOptions, BuildProgress,
+} from '../shared/types';
 
 let mainWindow: BrowserWindow | null = null;
 const symbolParser = new SymbolParser();
 let currentProjectPath: string = '';
 let currentDefines: Record<string, string | null> = {};
+let currentIncludeDirs: string[] = [];
+let currentOptFile: OptFile | null = null;
+// Per-file flags from compile_commands.json, keyed by source path (null when there is none)
+let compileFlags: Map<string, FileFlags> | null = null;
+let projectWatcher: ProjectWatcher | null = null;
+const configurationStore = new BuildConfigurationStore(path.join(app.getPath('userData'), 'build-configurations.json'));
+let currentConfigurations: BuildConfiguration[] = [];
+let activeConfiguration: string | null = null;
+const projectSettings = new ProjectSettingsStore(path.join(app.getPath('userData'), 'project-settings.json'));
+
+// Builds and file-watcher updates share the index and database, so they run one at a time
+let projectQueue: Promise<unknown> = Promise.resolve();
+function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const result = projectQueue.then(task);
+  projectQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Build phases are shown in the window's progress dialog
+function sendBuildProgress(progress: BuildProgress): void {
+  mainWindow?.webContents.send('build-progress', progress);
+}
+
+// Re-parse what changed on disk and push the deltas to the renderer
+async function handleProjectChanges(projectPath: string, paths: string[]): Promise<void> {
+  if (projectPath !== currentProjectPath) return;
+
+  const changes = await symbolParser.applyFileChanges(paths);
+  if (!mainWindow) return;
+
+  if (changes.treeChanged) {
+    mainWindow.webContents.send('file-tree-updated', await buildFileTree(projectPath));
+  }
+  if (changes.changed.length > 0 || changes.removed.length > 0) {
+    mainWindow.webContents.send('files-changed', { changed: changes.changed, removed: changes.removed });
+    mainWindow.webContents.send('symbols-updated');
+  }
+}
+
+function watchProject(projectPath: string): void {
+  projectWatcher?.stop();
+  projectWatcher = new ProjectWatcher(projectPath, (paths) => {
+    runExclusive(() => handleProjectChanges(projectPath, paths)).catch((err) => {
+      console.error('Failed to apply file changes:', err);
+    });
+  });
+  projectWatcher.start();
+}
 
 function loadDefinesFromFile(filePath: string): void {
   currentDefines = {};
+  currentIncludeDirs = [];
+  currentOptFile = null;
+  symbolParser.setIncludeDirectories([]);
+  symbolParser.setDefines(null);
 
   if (!fs.existsSync(filePath)) {
     return;
   }
 
+  // Relative -I paths are taken from the project root (the build directory)
+  const baseDir = currentProjectPath || path.dirname(filePath);
+
   try {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const lines = content.split(/\r?\n/);
-
-    let inCflagsSort = false;
-    for (const rawLine of lines) {
-      const line = rawLine.trim();
-      if (!line) continue;
-
-      if (line.startsWith('[') && line.endsWith(']')) {
-        // Block header
-        inCflagsSort = line === '[CFLAGS_sort]';
-        continue;
+    currentOptFile = readOptFile(filePath, baseDir);
+    currentDefines = currentOptFile.defines;
+    currentIncludeDirs = currentOptFile.includeDirs;
+
+    // Symbols under #if are re-checked against the new configuration
+    symbolParser.setDefines(currentDefines);
+  } catch (err) {
+    console.error('Failed to read defines file:', err);
+    currentDefines = {};
+    currentIncludeDirs = [];
+    currentOptFile = null;
+  }
+
+  updateIncludeDirectories();
+}
+
+// -I directories (and -isystem/-iquote) searched when resolving #include: a translation
+// unit in compile_commands.json uses its own, every other file the opt file's followed
+// by all of the compilation database's
+function updateIncludeDirectories(): void {
+  const dirs = [...currentIncludeDirs];
+  const fileDirs = new Map<string, string[]>();
+  compileFlags?.forEach((flags, sourceFile) => {
+    fileDirs.set(sourceFile, flags.includeDirs);
+    flags.includeDirs.forEach(dir => {
+      if (!dirs.includes(dir)) dirs.push(dir);
+    });
+  });
+
+  symbolParser.setIncludeDirectories(dirs);
+  symbolParser.setFileIncludeDirectories(fileDirs);
+}
+
+// Discover the project's .opt files and load the configuration chosen last time
+async function loadProjectConfigurations(projectPath: string): Promise<void> {
+  currentConfigurations = await configurationStore.list(projectPath);
+  const active = configurationStore.getActive(projectPath, currentConfigurations);
+  activeConfiguration = active?.name ?? null;
+  loadDefinesFromFile(active?.optPath ?? '');
+}
+
+// Per-file -D/-U/-I from a compilation database (compile_commands.json)
+function loadCompilationDatabase(filePath: string | null): void {
+  compileFlags = null;
+  if (filePath) {
+    try {
+      compileFlags = readCompilationDatabase(filePath);
+    } catch (err) {
+      console.error('Failed to read compilation database:', err);
+    }
+  }
+  updateIncludeDirectories();
+}
+
+// Flags of the file's own compile command; a header takes those of the first file
+// found including it, searching up the include graph breadth-first
+function getFileFlags(filePath: string): FileFlags | null {
+  if (!compileFlags) return null;
+
+  const queue = [filePath];
+  const seen = new Set(queue);
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const flags = compileFlags.get(current);
+    if (flags) return flags;
+
+    for (const include of symbolParser.getIncludedBy(current)) {
+      if (!seen.has(include.filePath)) {
+        seen.add(include.filePath);
+        queue.push(include.filePath);
       }
+    }
+  }
+  return null;
+}
 
-      if (!inCflagsSort) continue;
+// Settings remembered for the project, applied before its index is loaded
+function applyProjectSettings(projectPath: string): void {
+  symbolParser.setParserBackend(projectSettings.get(projectPath).parserBackend ?? 'regex');
+}
 
-      // Inside [CFLAGS_sort] block: extract -D options
-      const match = line.match(/^-D([^\s=]+)(?:=(.+))?$/);
-      if (!match) continue;
+// Switch symbol extraction for the open project and parse every file again with it;
+// a built database is rebuilt in full so no file keeps symbols from the other parser
+async function changeParserBackend(backend: ParserBackend): Promise<void> {
+  const previousBackend = symbolParser.getParserBackend();
+  symbolParser.setParserBackend(backend);
+  if (!currentProjectPath) return;
 
-      const name = match[1];
-      const value = match[2] !== undefined ? match[2] : null;
-      currentDefines[name] = value;
+  const projectPath = currentProjectPath;
+  try {
+    await runExclusive(async () => {
+      if (symbolParser.hasSymbolDatabase(projectPath)) {
+        await symbolParser.buildSymbolDatabase(projectPath, sendBuildProgress, true);
+      } else {
+        symbolParser.clearIndex();
+        await symbolParser.indexDirectory(projectPath);
+      }
+    });
+  } catch (err) {
+    // Stay on the backend the index on disk was built with
+    symbolParser.setParserBackend(previousBackend);
+    await handleFailedBuild(projectPath, err);
+    return;
+  }
+
+  projectSettings.update(projectPath, { parserBackend: backend });
+  mainWindow?.webContents.send('symbols-updated');
+}
+
+// A failed build leaves the index cleared: close the progress dialog, load the database
+// on disk again (or index quickly without one) and explain what went wrong
+async function handleFailedBuild(projectPath: string, err: unknown): Promise<void> {
+  console.error('Failed to build symbol data:', err);
+  sendBuildProgress({ phase: 'failed', current: 0, total: 0 });
+
+  if (projectPath === currentProjectPath) {
+    try {
+      await runExclusive(async () => {
+        const loaded = await symbolParser.loadSymbolDatabase(projectPath).catch(() => false);
+        if (!loaded) {
+          symbolParser.clearIndex();
+          await symbolParser.indexDirectory(projectPath);
+        }
+      });
+    } catch (reloadErr) {
+      console.error('Failed to reload the symbol index:', reloadErr);
     }
+    mainWindow?.webContents.send('symbols-updated');
+  }
+
+  dialog.showMessageBox({
+    type: 'error',
+    title: 'Build Failed',
+    message: 'Could not build the symbol database.',
+    detail: err instanceof Error ? err.message : String(err),
+  });
+}
+
+// Load the built symbol database, or fall back to quick indexing when there is none.
+// A database that cannot be used is explained, with the choice to rebuild it now.
+async function loadProjectIndex(folderPath: string): Promise<void> {
+  let loaded = false;
+  try {
+    loaded = await symbolParser.loadSymbolDatabase(folderPath);
   } catch (err) {
-    console.error('Failed to read defines file:', err);
-    currentDefines = {};
+    if (!(err instanceof DatabaseOpenError)) throw err;
+
+    const { response } = await dialog.showMessageBox({
+      type: 'warning',
+      title: 'Symbol Database Unusable',
+      message: err.reason === 'corrupt'
+        ? 'The symbol database of this folder is damaged.'
+        : 'The symbol database of this folder was made by a different version of Source Code Viewer.',
+      detail: `${err.message}\n\nRebuild it now, or browse with a quick in-memory index until you run ` +
+        'Build Symbol Data.',
+      buttons: ['Rebuild', 'Use Quick Index'],
+      defaultId: 0,
+      cancelId: 1,
+    });
+    if (response === 0) {
+      await symbolParser.buildSymbolDatabase(folderPath, sendBuildProgress, true);
+      loaded = true;
+    }
+  }
+
+  if (!loaded) {
+    // No usable database, do quick indexing
+    symbolParser.clearIndex();
+    await symbolParser.indexDirectory(folderPath);
   }
 }
 
-function loadDefinesFromRtecdcOpt(projectPath: string): void {
-  const optPath = path.join(projectPath, 'rtecdc.opt');
-  loadDefinesFromFile(optPath);
+function getConfigurationState(): BuildConfigurationState {
+  return { configurations: currentConfigurations, active: activeConfiguration };
+}
+
+// Switch configurations without reopening the folder: defines, -I header resolution
+// and the compiled-out flags of indexed symbols all follow the new .opt file
+async function activateConfiguration(name: string): Promise<void> {
+  const configuration = currentConfigurations.find(c => c.name === name);
+  if (!configuration || !currentProjectPath) return;
+
+  activeConfiguration = configuration.name;
+  configurationStore.setActive(currentProjectPath, configuration.name);
+  await runExclusive(async () => {
+    loadDefinesFromFile(configuration.optPath);
+    symbolParser.refreshIncludeResolution();
+  });
+
+  mainWindow?.webContents.send('configurations-updated', getConfigurationState());
+  mainWindow?.webContents.send('defines-updated');
+  mainWindow?.webContents.send('symbols-updated');
 }
 
 function createMenu() {
@@ -70,16 +297,13 @@ function createMenu() {
                 const folderPath = result.filePaths[0];
                 currentProjectPath = folderPath;
                 console.log('Opening folder from menu:', folderPath);
-                loadDefinesFromRtecdcOpt(folderPath);
+                applyProjectSettings(folderPath);
+                await loadProjectConfigurations(folderPath);
+                loadCompilationDatabase(findCompilationDatabase(folderPath));
                 
-                // Try to load existing database
-                const loaded = await symbolParser.loadSymbolDatabase(folderPath);
-                if (!loaded) {
-                  // No database, do quick indexing
-                  symbolParser.clearIndex();
-                  await symbolParser.indexDirectory(folderPath);
-                }
+                await loadProjectIndex(folderPath);
                 
+                watchProject(folderPath);
                 const tree = await buildFileTree(folderPath);
                 console.log('Sending folder-opened event with tree:', tree);
                 mainWindow.webContents.send('folder-opened', tree);
@@ -108,25 +332,100 @@ function createMenu() {
               total: 0,
             });
 
-            await symbolParser.buildSymbolDatabase(currentProjectPath, mainWindow);
+            const projectPath = currentProjectPath;
+            let summary: BuildSummary;
+            try {
+              summary = await runExclusive(() => symbolParser.buildSymbolDatabase(projectPath, sendBuildProgress));
+            } catch (err) {
+              await handleFailedBuild(projectPath, err);
+              return;
+            }
             
             // Ensure a final complete event is sent
             mainWindow?.webContents.send('build-progress', {
               phase: 'complete',
-              current: 0,
-              total: 0,
+              current: summary.totalSymbols,
+              total: summary.totalSymbols,
+              skipped: summary.skippedFiles,
             });
             
             dialog.showMessageBox({
               type: 'info',
               title: 'Build Complete',
               message: 'Symbol database has been built successfully!',
+              detail: `${summary.parsedFiles} file(s) parsed, ${summary.skippedFiles} unchanged file(s) skipped, ` +
+                `${summary.removedFiles} deleted file(s) removed.`,
             });
 
             // Notify renderer that symbols have been updated
             mainWindow?.webContents.send('symbols-updated');
           }
         },
+        {
+          label: 'Import Tags...',
+          click: async () => {
+            if (!mainWindow) return;
+            if (!currentProjectPath) {
+              dialog.showMessageBox({
+                type: 'warning',
+                title: 'No Folder Opened',
+                message: 'Please open a folder first before importing tags.',
+              });
+              return;
+            }
+
+            const result = await dialog.showOpenDialog(mainWindow, {
+              title: 'Import ctags or cscope database',
+              properties: ['openFile', 'multiSelections'],
+            });
+
+            if (result.canceled || result.filePaths.length === 0) {
+              return;
+            }
+
+            try {
+              const symbols: Symbol[] = [];
+              const details: string[] = [];
+              for (const filePath of result.filePaths) {
+                const tags = readTagsFile(filePath);
+                symbols.push(...tags.symbols);
+                details.push(`${path.basename(filePath)} (${tags.format}): ${tags.symbols.length} symbol(s), ` +
+                  `${tags.skipped} entr${tags.skipped === 1 ? 'y' : 'ies'} skipped`);
+              }
+
+              const projectPath = currentProjectPath;
+              const stored = await runExclusive(() => symbolParser.importSymbols(projectPath, symbols));
+              dialog.showMessageBox({
+                type: 'info',
+                title: 'Import Complete',
+                message: `${stored} symbol(s) imported into the symbol database.`,
+                detail: details.join('\n'),
+              });
+              mainWindow?.webContents.send('symbols-updated');
+            } catch (err) {
+              dialog.showMessageBox({
+                type: 'error',
+                title: 'Import Failed',
+                message: 'Could not import the tags file.',
+                detail: err instanceof Error ? err.message : String(err),
+              });
+            }
+          },
+        },
+        {
+          label: 'Export Symbols...',
+          click: () => {
+            if (!currentProjectPath) {
+              dialog.showMessageBox({
+                type: 'warning',
+                title: 'No Folder Opened',
+                message: 'Please open a folder first before exporting symbols.',
+              });
+              return;
+            }
+            mainWindow?.webContents.send('export-symbols');
+          },
+        },
         { type: 'separator' },
         {
           label: 'Exit',
@@ -183,7 +482,39 @@ function createMenu() {
             }
 
             const filePath = result.filePaths[0];
-            loadDefinesFromFile(filePath);
+            if (!currentProjectPath) {
+              loadDefinesFromFile(filePath);
+              mainWindow.webContents.send('defines-updated');
+              mainWindow.webContents.send('symbols-updated');
+              return;
+            }
+
+            // The file becomes one of the project's configurations and is selected
+            configurationStore.register(currentProjectPath, filePath);
+            currentConfigurations = await configurationStore.list(currentProjectPath);
+            const configuration = currentConfigurations.find(c => c.optPath === filePath);
+            if (configuration) {
+              await activateConfiguration(configuration.name);
+            }
+          },
+        },
+        {
+          label: 'Load compile_commands.json',
+          click: async () => {
+            if (!mainWindow) return;
+            const result = await dialog.showOpenDialog(mainWindow, {
+              properties: ['openFile'],
+              filters: [{ name: 'Compilation database', extensions: ['json'] }],
+            });
+
+            if (result.canceled || result.filePaths.length === 0) {
+              return;
+            }
+
+            await runExclusive(async () => {
+              loadCompilationDatabase(result.filePaths[0]);
+              symbolParser.refreshIncludeResolution();
+            });
             mainWindow.webContents.send('defines-updated');
           },
         },
@@ -257,11 +588,17 @@ app.whenReady().then(() => {
 });
 
 app.on('window-all-closed', () => {
+  projectWatcher?.stop();
   if (process.platform !== 'darwin') {
     app.quit();
   }
 });
 
+// Write out symbol changes the watcher saved for later
+app.on('will-quit', () => {
+  symbolParser.clearIndex();
+});
+
 // IPC Handlers
 ipcMain.handle('open-folder', async () => {
   const result = await dialog.showOpenDialog({
@@ -274,16 +611,13 @@ ipcMain.handle('open-folder', async () => {
 
   const folderPath = result.filePaths[0];
   currentProjectPath = folderPath;
-  loadDefinesFromRtecdcOpt(folderPath);
+  applyProjectSettings(folderPath);
+  await loadProjectConfigurations(folderPath);
+  loadCompilationDatabase(findCompilationDatabase(folderPath));
   
-  // Try to load existing database
-  const loaded = await symbolParser.loadSymbolDatabase(folderPath);
-  if (!loaded) {
-    // No database, do quick indexing
-    symbolParser.clearIndex();
-    await symbolParser.indexDirectory(folderPath);
-  }
+  await loadProjectIndex(folderPath);
   
+  watchProject(folderPath);
   return await buildFileTree(folderPath);
 });
 
@@ -295,8 +629,46 @@ ipcMain.handle('get-file-tree', async (event, dirPath: string) => {
   return await buildFileTree(dirPath);
 });
 
-ipcMain.handle('find-definition', async (event, symbolName: string) => {
-  return symbolParser.findDefinition(symbolName);
+ipcMain.handle('find-definition', async (event, request: DefinitionRequest) => {
+  return symbolParser.findDefinition(request.symbolName, request);
+});
+
+ipcMain.handle('find-declaration', async (event, request: DefinitionRequest) => {
+  return symbolParser.findDeclaration(request.symbolName, request);
+});
+
+ipcMain.handle('find-references', async (event, symbolName: string) => {
+  return attachPreviews(symbolParser.findReferences(symbolName));
+});
+
+// #if/#ifdef/#ifndef/#elif lines that test a macro (CFLAGS compare)
+ipcMain.handle('find-conditional-uses', async (event, macroName: string) => {
+  const references = await attachPreviews(symbolParser.findReferences(macroName));
+  return references.filter(ref => /^#\s*(if|ifdef|ifndef|elif)\b/.test(ref.preview || ''));
+});
+
+ipcMain.handle('prepare-call-hierarchy', async (event, request: DefinitionRequest) => {
+  return symbolParser.prepareCallHierarchy(request);
+});
+
+ipcMain.handle('get-incoming-calls', async (event, item: CallHierarchyItem) => {
+  return symbolParser.getIncomingCalls(item);
+});
+
+ipcMain.handle('get-outgoing-calls', async (event, item: CallHierarchyItem) => {
+  return symbolParser.getOutgoingCalls(item);
+});
+
+ipcMain.handle('resolve-include', async (event, header: string, fromFile: string, isSystem: boolean) => {
+  return symbolParser.resolveInclude(header, fromFile, isSystem);
+});
+
+ipcMain.handle('get-includes', async (event, filePath: string) => {
+  return symbolParser.getIncludes(filePath);
+});
+
+ipcMain.handle('get-included-by', async (event, filePath: string) => {
+  return symbolParser.getIncludedBy(filePath);
 });
 
 ipcMain.handle('get-symbols', async () => {
@@ -307,6 +679,74 @@ ipcMain.handle('get-defines', async () => {
   return currentDefines;
 });
 
+ipcMain.handle('get-file-flags', async (event, filePath: string) => {
+  return getFileFlags(filePath);
+});
+
+// Every section and option of the loaded opt file (null when none is loaded)
+ipcMain.handle('get-opt-file', async () => {
+  return currentOptFile;
+});
+
+// Defines of any opt file, without making it the active configuration (CFLAGS compare)
+ipcMain.handle('read-defines-file', async (event, optPath: string) => {
+  return readOptFile(optPath, currentProjectPath || path.dirname(optPath)).defines;
+});
+
+ipcMain.handle('choose-opt-file', async () => {
+  if (!mainWindow) return null;
+  const result = await dialog.showOpenDialog(mainWindow, {
+    properties: ['openFile'],
+    filters: [{ name: 'Opt files', extensions: ['opt'] }, { name: 'All files', extensions: ['*'] }],
+  });
+  return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+});
+
+// Save text produced in the renderer (e.g. a CFLAGS diff); false when cancelled
+ipcMain.handle('export-text', async (event, defaultName: string, content: string) => {
+  if (!mainWindow) return false;
+  const result = await dialog.showSaveDialog(mainWindow, {
+    defaultPath: path.join(currentProjectPath || app.getPath('documents'), defaultName),
+  });
+  if (result.canceled || !result.filePath) return false;
+
+  await fs.promises.writeFile(result.filePath, content, 'utf-8');
+  return true;
+});
+
+// Write the selected symbols where the user chooses; null when cancelled
+ipcMain.handle('export-symbols', async (event, options: SymbolExportOptions) => {
+  if (!mainWindow || !currentProjectPath) return null;
+  const symbols = selectSymbols(Object.values(symbolParser.getIndex()).flat(), options);
+
+  const result = await dialog.showSaveDialog(mainWindow, {
+    defaultPath: path.join(currentProjectPath, EXPORT_FILE_NAMES[options.format]),
+  });
+  if (result.canceled || !result.filePath) return null;
+
+  const content = formatSymbols(symbols, options.format, currentProjectPath, result.filePath);
+  await fs.promises.writeFile(result.filePath, content, 'utf-8');
+  return { filePath: result.filePath, count: symbols.length };
+});
+
+ipcMain.handle('get-configurations', async () => {
+  return getConfigurationState();
+});
+
+ipcMain.handle('set-active-configuration', async (event, name: string) => {
+  await activateConfiguration(name);
+  return getConfigurationState();
+});
+
+ipcMain.handle('get-parser-backend', async () => {
+  return symbolParser.getParserBackend();
+});
+
+ipcMain.handle('set-parser-backend', async (event, backend: ParserBackend) => {
+  await changeParserBackend(backend);
+  return symbolParser.getParserBackend();
+});
+
 // Window controls
 ipcMain.on('minimize-window', () => {
   if (mainWindow) mainWindow.minimize();
@@ -0,0 +1,183 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { findInactiveLines, Defines } from '../shared/preprocessor';
+import type { OptFile, OptOption, OptSection } from '../shared/types';
+
+// Section whose -D/-U options define the build. Files without it are read as a
+// whole, in order.
+const DEFINES_SECTION = 'CFLAGS_sort';
+
+// Options whose argument may be the next word (-I dir, -include file)
+const INCLUDE_DIR_FLAGS = ['-isystem', '-iquote', '-idirafter', '-I'];
+const FORCED_INCLUDE_FLAGS = ['-include', '-imacros'];
+
+// Split a line into words; double-quoted parts (paths, string values) stay in one word
+function splitWords(line: string): string[] {
+  return line.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+}
+
+function unquote(text: string): string {
+  return text.replace(/^"(.*)"$/, '$1');
+}
+
+// Compiler options in a list of words (a line of an opt file, the arguments of a
+// compile command). With joinLooseWords, words that do not start with '-' continue
+// the value of the previous option, so "-DNAME=a b" in an opt file keeps its value whole.
+export function parseCompilerOptions(words: string[], lineNumber: number, joinLooseWords: boolean): OptOption[] {
+  const options: OptOption[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    const previous = options[options.length - 1];
+    if (!word.startsWith('-')) {
+      if (joinLooseWords && previous && (previous.kind === 'define' || previous.kind === 'other')) {
+        previous.value = previous.value ? `${previous.value} ${word}` : word;
+      }
+      continue;
+    }
+
+    // -D NAME and -I dir take the following word when nothing is attached
+    const takeArgument = (flag: string) => {
+      const attached = word.substring(flag.length);
+      if (attached || i + 1 >= words.length) return attached;
+      return words[++i];
+    };
+
+    if (word.startsWith('-D')) {
+      const argument = takeArgument('-D');
+      const eq = argument.indexOf('=');
+      options.push({
+        kind: 'define',
+        flag: '-D',
+        name: eq === -1 ? argument : argument.substring(0, eq),
+        value: eq === -1 ? null : argument.substring(eq + 1),
+        line: lineNumber,
+      });
+      continue;
+    }
+
+    if (word.startsWith('-U')) {
+      options.push({ kind: 'undefine', flag: '-U', name: takeArgument('-U'), line: lineNumber });
+      continue;
+    }
+
+    const forcedFlag = FORCED_INCLUDE_FLAGS.find(f => word === f);
+    if (forcedFlag) {
+      options.push({ kind: 'forcedInclude', flag: forcedFlag, value: unquote(takeArgument(forcedFlag)), line: lineNumber });
+      continue;
+    }
+
+    const dirFlag = INCLUDE_DIR_FLAGS.find(f => word.startsWith(f));
+    if (dirFlag) {
+      options.push({ kind: 'includeDir', flag: dirFlag, value: unquote(takeArgument(dirFlag)), line: lineNumber });
+      continue;
+    }
+
+    options.push({ kind: 'other', flag: word, line: lineNumber });
+  }
+
+  return options;
+}
+
+function parseSections(content: string): OptSection[] {
+  const sections: OptSection[] = [{ name: '', lines: [], options: [] }];
+
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line.startsWith('[') && line.endsWith(']')) {
+      sections.push({ name: line.slice(1, -1).trim(), lines: [], options: [] });
+      return;
+    }
+
+    const section = sections[sections.length - 1];
+    section.lines.push(rawLine);
+    if (line && !line.startsWith('#')) {
+      section.options.push(...parseCompilerOptions(splitWords(line), index + 1, true));
+    }
+  });
+
+  // Drop the unnamed section when the file starts with a header
+  return sections.filter((s, i) => i > 0 || s.lines.some(l => l.trim()));
+}
+
+// Object-like #define/#undef of a forced header, skipping branches its own
+// conditionals (evaluated with the defines so far) leave out
+function applyForcedHeader(filePath: string, defines: Defines): void {
+  let lines: string[];
+  try {
+    lines = fs.readFileSync(filePath, 'utf-8').split(/\r?\n/);
+  } catch (err) {
+    console.error('Failed to read forced include:', filePath, err);
+    return;
+  }
+
+  const inactive = findInactiveLines(lines, defines);
+  for (let index = 0; index < lines.length; index++) {
+    if (inactive[index + 1]) continue;
+
+    // A "\" at the end of a line continues the directive on the next one
+    let line = lines[index];
+    while (/\\\s*$/.test(line) && index + 1 < lines.length) {
+      line = line.replace(/\\\s*$/, ' ') + lines[++index];
+    }
+
+    const define = line.match(/^\s*#\s*define\s+([A-Za-z_]\w*)(?![\w(])(.*)$/);
+    if (define) {
+      defines[define[1]] = define[2].replace(/\/\*.*?\*\//g, ' ').replace(/\/\/.*$/, '').replace(/\s+/g, ' ').trim();
+      continue;
+    }
+
+    const undef = line.match(/^\s*#\s*undef\s+([A-Za-z_]\w*)/);
+    if (undef) {
+      delete defines[undef[1]];
+    }
+  }
+}
+
+// Header given to -include: relative to the build directory, then the -I directories
+function resolveForcedInclude(file: string, baseDir: string, includeDirs: string[]): string {
+  const candidates = path.isAbsolute(file) ? [file] : [baseDir, ...includeDirs].map(dir => path.join(dir, file));
+  return candidates.find(candidate => fs.existsSync(candidate)) ?? file;
+}
+
+// Parse an opt file and work out what the compiler sees: -D then -U (so an undefine
+// wins in sorted sections), then the #defines of -include headers. Relative paths are
+// resolved against baseDir.
+export function parseOptFile(filePath: string, content: string, baseDir: string): OptFile {
+  const sections = parseSections(content);
+  const allOptions = sections.flatMap(s => s.options);
+  const definesSection = sections.find(s => s.name === DEFINES_SECTION);
+  const defineOptions = definesSection ? definesSection.options : allOptions;
+
+  const defines: Defines = {};
+  defineOptions.filter(o => o.kind === 'define' && o.name).forEach(o => { defines[o.name!] = o.value ?? null; });
+
+  const undefines: string[] = [];
+  defineOptions.filter(o => o.kind === 'undefine' && o.name).forEach(o => {
+    delete defines[o.name!];
+    if (!undefines.includes(o.name!)) undefines.push(o.name!);
+  });
+
+  // Header search paths are collected from every section
+  const includeDirs: string[] = [];
+  allOptions.filter(o => o.kind === 'includeDir' && o.value).forEach(o => {
+    const dir = path.resolve(baseDir, o.value!);
+    if (!includeDirs.includes(dir)) includeDirs.push(dir);
+  });
+
+  const forcedIncludes: string[] = [];
+  allOptions.filter(o => o.kind === 'forcedInclude' && o.value).forEach(o => {
+    const header = resolveForcedInclude(o.value!, baseDir, includeDirs);
+    if (forcedIncludes.includes(header)) return;
+    forcedIncludes.push(header);
+    if (path.isAbsolute(header)) {
+      applyForcedHeader(header, defines);
+    }
+  });
+
+  return { filePath, sections, defines, undefines, includeDirs, forcedIncludes };
+}
+
+export function readOptFile(filePath: string, baseDir: string): OptFile {
+  return parseOptFile(filePath, fs.readFileSync(filePath, 'utf-8'), baseDir);
+}
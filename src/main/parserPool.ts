@@ -0,0 +1,153 @@
+import { Worker } from 'worker_threads';
+import * as os from 'os';
+import * as path from 'path';
+import type { FileAnalysis } from './symbolParser';
+import type { ParserBackend } from '../shared/types';
+
+export interface ParseTask {
+  filePath: string;
+  language: string;
+  backend: ParserBackend;
+}
+
+// Messages exchanged with parserWorker.js
+export interface ParseRequest extends ParseTask {
+  id: number;
+}
+
+export interface ParseResponse {
+  id: number;
+  analysis?: FileAnalysis;
+  error?: string;
+}
+
+// Handlers a run attaches to a pool worker, removed again when the run ends
+interface RunListeners {
+  worker: Worker;
+  onMessage: (response: ParseResponse) => void;
+  onError: (err: Error) => void;
+  onExit: (code: number) => void;
+}
+
+const WORKER_SCRIPT = path.join(__dirname, 'parserWorker.js');
+
+// Parses files on worker threads, one per CPU. Each worker is handed the next file
+// as soon as it reports its previous one, so slow files do not hold up the rest.
+// Workers are started on first use and kept between runs (the file watcher parses
+// small batches often); idle workers do not keep the process alive.
+export class ParserPool {
+  private size: number;
+  private workers: Worker[] = [];
+  // Runs share the workers, so each one waits for the previous run
+  private lastRun: Promise<void> = Promise.resolve();
+
+  constructor(size: number = os.cpus().length) {
+    this.size = Math.max(1, size);
+  }
+
+  // Resolves once every task has been reported through onResult (in completion order).
+  // Files that fail to parse are logged and reported with a null analysis.
+  run(
+    tasks: ParseTask[],
+    onResult: (analysis: FileAnalysis | null, task: ParseTask, completed: number) => void
+  ): Promise<void> {
+    const result = this.lastRun.then(() => this.runTasks(tasks, onResult));
+    this.lastRun = result.catch(() => undefined);
+    return result;
+  }
+
+  // Stops every worker; the next run starts new ones
+  close(): void {
+    const workers = this.workers;
+    this.workers = [];
+    workers.forEach(worker => worker.terminate());
+  }
+
+  private startWorker(): Worker {
+    const worker = new Worker(WORKER_SCRIPT);
+    // A worker that dies between runs is dropped and replaced by the next run;
+    // errors during a run are reported by that run
+    worker.on('exit', () => {
+      this.workers = this.workers.filter(w => w !== worker);
+    });
+    worker.on('error', () => undefined);
+    this.workers.push(worker);
+    return worker;
+  }
+
+  private runTasks(
+    tasks: ParseTask[],
+    onResult: (analysis: FileAnalysis | null, task: ParseTask, completed: number) => void
+  ): Promise<void> {
+    if (tasks.length === 0) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const listeners: RunListeners[] = [];
+      let next = 0;
+      let completed = 0;
+      let settled = false;
+
+      const finish = (err?: Error) => {
+        if (settled) return;
+        settled = true;
+        listeners.forEach(({ worker, onMessage, onError, onExit }) => {
+          worker.off('message', onMessage);
+          worker.off('error', onError);
+          worker.off('exit', onExit);
+          worker.unref();
+        });
+        if (err) {
+          // A worker may still be busy with a file of this run
+          this.close();
+          reject(err);
+        } else {
+          resolve();
+        }
+      };
+
+      const dispatch = (worker: Worker) => {
+        if (next < tasks.length) {
+          const request: ParseRequest = { id: next, ...tasks[next] };
+          next++;
+          worker.postMessage(request);
+        }
+      };
+
+      try {
+        for (let i = 0; i < Math.min(this.size, tasks.length); i++) {
+          const worker = this.workers[i] ?? this.startWorker();
+
+          const onMessage = (response: ParseResponse) => {
+            if (settled) return;
+            const task = tasks[response.id];
+            if (response.error) {
+              console.error(`Failed to parse ${task.filePath}:`, response.error);
+            }
+
+            completed++;
+            onResult(response.analysis ?? null, task, completed);
+
+            if (completed === tasks.length) {
+              finish();
+            } else {
+              dispatch(worker);
+            }
+          };
+          const onError = (err: Error) => finish(err);
+          const onExit = (code: number) => finish(new Error(`Parser worker exited with code ${code}`));
+          worker.on('message', onMessage);
+          worker.on('error', onError);
+          worker.on('exit', onExit);
+          worker.ref();
+          listeners.push({ worker, onMessage, onError, onExit });
+
+          dispatch(worker);
+        }
+      } catch (err) {
+        finish(err as Error);
+      }
+    });
+  }
+}
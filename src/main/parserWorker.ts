@@ -0,0 +1,17 @@
+import { parentPort } from 'worker_threads';
+import { SymbolParser } from './symbolParser';
+import type { ParseRequest, ParseResponse } from './parserPool';
+
+// Worker thread entry used by ParserPool: parses the files it is sent and
+// posts each FileAnalysis back to the main thread
+const parser = new SymbolParser();
+
+parentPort?.on('message', async (request: ParseRequest) => {
+  let response: ParseResponse;
+  try {
+    response = { id: request.id, analysis: await parser.analyzeFile(request.filePath, request.language, request.backend) };
+  } catch (err) {
+    response = { id: request.id, error: String(err) };
+  }
+  parentPort!.postMessage(response);
+});
@@ -1,5 +1,8 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import type { FileNode, FileContent, Symbol, SymbolIndex } from '../shared/types';
+import type {
+  FileNode, FileContent, Symbol, SymbolIndex, SymbolReference, DefinitionRequest, CallHierarchyItem, IncludeDirective,
+  BuildConfigurationState, OptFile, FileFlags, ParserBackend, SymbolExportOptions,
+} from '../shared/types';
 
 console.log('Preload script loaded');
 
@@ -12,9 +15,29 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getFileTree: (path: string) => ipcRenderer.invoke('get-file-tree', path),
   
   // Symbol operations
-  findDefinition: (symbolName: string) => ipcRenderer.invoke('find-definition', symbolName),
+  findDefinition: (request: DefinitionRequest) => ipcRenderer.invoke('find-definition', request),
+  findDeclaration: (request: DefinitionRequest) => ipcRenderer.invoke('find-declaration', request),
+  findReferences: (symbolName: string) => ipcRenderer.invoke('find-references', symbolName),
+  prepareCallHierarchy: (request: DefinitionRequest) => ipcRenderer.invoke('prepare-call-hierarchy', request),
+  getIncomingCalls: (item: CallHierarchyItem) => ipcRenderer.invoke('get-incoming-calls', item),
+  getOutgoingCalls: (item: CallHierarchyItem) => ipcRenderer.invoke('get-outgoing-calls', item),
+  resolveInclude: (header: string, fromFile: string, isSystem: boolean) =>
+    ipcRenderer.invoke('resolve-include', header, fromFile, isSystem),
+  getIncludes: (filePath: string) => ipcRenderer.invoke('get-includes', filePath),
+  getIncludedBy: (filePath: string) => ipcRenderer.invoke('get-included-by', filePath),
   getSymbols: () => ipcRenderer.invoke('get-symbols'),
   getDefines: () => ipcRenderer.invoke('get-defines'),
+  getOptFile: () => ipcRenderer.invoke('get-opt-file'),
+  getFileFlags: (filePath: string) => ipcRenderer.invoke('get-file-flags', filePath),
+  getConfigurations: () => ipcRenderer.invoke('get-configurations'),
+  setActiveConfiguration: (name: string) => ipcRenderer.invoke('set-active-configuration', name),
+  getParserBackend: () => ipcRenderer.invoke('get-parser-backend'),
+  setParserBackend: (backend: ParserBackend) => ipcRenderer.invoke('set-parser-backend', backend),
+  readDefinesFile: (optPath: string) => ipcRenderer.invoke('read-defines-file', optPath),
+  chooseOptFile: () => ipcRenderer.invoke('choose-opt-file'),
+  findConditionalUses: (macroName: string) => ipcRenderer.invoke('find-conditional-uses', macroName),
+  exportText: (defaultName: string, content: string) => ipcRenderer.invoke('export-text', defaultName, content),
+  exportSymbols: (options: SymbolExportOptions) => ipcRenderer.invoke('export-symbols', options),
   
   // Window operations
   minimizeWindow: () => ipcRenderer.send('minimize-window'),
@@ -34,14 +57,30 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.removeAllListeners('symbols-updated');
     ipcRenderer.on('symbols-updated', () => callback());
   },
+  onFileTreeUpdated: (callback: (tree: FileNode) => void) => {
+    ipcRenderer.removeAllListeners('file-tree-updated');
+    ipcRenderer.on('file-tree-updated', (_event, tree) => callback(tree));
+  },
+  onFilesChanged: (callback: (changes: { changed: string[]; removed: string[] }) => void) => {
+    ipcRenderer.removeAllListeners('files-changed');
+    ipcRenderer.on('files-changed', (_event, changes) => callback(changes));
+  },
   onViewCflags: (callback: () => void) => {
     ipcRenderer.removeAllListeners('view-cflags');
     ipcRenderer.on('view-cflags', () => callback());
   },
+  onExportSymbols: (callback: () => void) => {
+    ipcRenderer.removeAllListeners('export-symbols');
+    ipcRenderer.on('export-symbols', () => callback());
+  },
   onDefinesUpdated: (callback: () => void) => {
     ipcRenderer.removeAllListeners('defines-updated');
     ipcRenderer.on('defines-updated', () => callback());
   },
+  onConfigurationsUpdated: (callback: (state: BuildConfigurationState) => void) => {
+    ipcRenderer.removeAllListeners('configurations-updated');
+    ipcRenderer.on('configurations-updated', (_event, state) => callback(state));
+  },
 });
 
 // Type declarations for TypeScript
@@ -51,17 +90,40 @@ declare global {
       openFolder: () => Promise<FileNode | null>;
       readFile: (path: string) => Promise<FileContent>;
       getFileTree: (path: string) => Promise<FileNode>;
-      findDefinition: (symbolName: string) => Promise<Symbol[]>;
+      findDefinition: (request: DefinitionRequest) => Promise<Symbol[]>;
+      findDeclaration: (request: DefinitionRequest) => Promise<Symbol[]>;
+      findReferences: (symbolName: string) => Promise<SymbolReference[]>;
+      prepareCallHierarchy: (request: DefinitionRequest) => Promise<CallHierarchyItem | null>;
+      getIncomingCalls: (item: CallHierarchyItem) => Promise<CallHierarchyItem[]>;
+      getOutgoingCalls: (item: CallHierarchyItem) => Promise<CallHierarchyItem[]>;
+      resolveInclude: (header: string, fromFile: string, isSystem: boolean) => Promise<string | null>;
+      getIncludes: (filePath: string) => Promise<IncludeDirective[]>;
+      getIncludedBy: (filePath: string) => Promise<IncludeDirective[]>;
       getSymbols: () => Promise<SymbolIndex>;
       getDefines: () => Promise<Record<string, string | null>>;
+      getOptFile: () => Promise<OptFile | null>;
+      getFileFlags: (filePath: string) => Promise<FileFlags | null>;
+      getConfigurations: () => Promise<BuildConfigurationState>;
+      setActiveConfiguration: (name: string) => Promise<BuildConfigurationState>;
+      getParserBackend: () => Promise<ParserBackend>;
+      setParserBackend: (backend: ParserBackend) => Promise<ParserBackend>;
+      readDefinesFile: (optPath: string) => Promise<Record<string, string | null>>;
+      chooseOptFile: () => Promise<string | null>;
+      findConditionalUses: (macroName: string) => Promise<SymbolReference[]>;
+      exportText: (defaultName: string, content: string) => Promise<boolean>;
+      exportSymbols: (options: SymbolExportOptions) => Promise<{ filePath: string; count: number } | null>;
       minimizeWindow: () => void;
       maximizeWindow: () => void;
       closeWindow: () => void;
       onFolderOpened: (callback: (tree: FileNode) => void) => void;
       onBuildProgress: (callback: (progress: any) => void) => void;
       onSymbolsUpdated: (callback: () => void) => void;
+      onFileTreeUpdated: (callback: (tree: FileNode) => void) => void;
+      onFilesChanged: (callback: (changes: { changed: string[]; removed: string[] }) => void) => void;
       onViewCflags: (callback: () => void) => void;
+      onExportSymbols: (callback: () => void) => void;
       onDefinesUpdated: (callback: () => void) => void;
+      onConfigurationsUpdated: (callback: (state: BuildConfigurationState) => void) => void;
     };
   }
 }
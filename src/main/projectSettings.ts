@@ -0,0 +1,38 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ParserBackend } from '../shared/types';
+
+// Choices made for one project
+export interface ProjectSettings {
+  parserBackend?: ParserBackend;  // symbol extraction, 'regex' when not chosen
+}
+
+// Per-project settings of every opened project, persisted as JSON in storePath
+export class ProjectSettingsStore {
+  private storePath: string;
+  private projects: Record<string, ProjectSettings> = {};
+
+  constructor(storePath: string) {
+    this.storePath = storePath;
+    try {
+      this.projects = JSON.parse(fs.readFileSync(storePath, 'utf-8'));
+    } catch {
+      // First run, or an unreadable file: start over
+      this.projects = {};
+    }
+  }
+
+  get(projectPath: string): ProjectSettings {
+    return this.projects[projectPath] ?? {};
+  }
+
+  update(projectPath: string, changes: ProjectSettings): void {
+    this.projects[projectPath] = { ...this.get(projectPath), ...changes };
+    try {
+      fs.mkdirSync(path.dirname(this.storePath), { recursive: true });
+      fs.writeFileSync(this.storePath, JSON.stringify(this.projects, null, 2));
+    } catch (err) {
+      console.error('Failed to save project settings:', err);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isIgnoredEntry } from './fileSystem';
+
+// Quiet period before a burst of events (git checkout, build output) is reported
+const DEBOUNCE_MS = 300;
+
+// Watches a project directory and reports changed paths in debounced batches.
+// Paths under ignored entries (hidden files, node_modules, build, ...) are dropped,
+// the same rules buildFileTree uses.
+export class ProjectWatcher {
+  private rootPath: string;
+  private onChange: (paths: string[]) => void;
+  private watchers: Map<string, fs.FSWatcher> = new Map();
+  private pending: Set<string> = new Set();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(rootPath: string, onChange: (paths: string[]) => void) {
+    this.rootPath = rootPath;
+    this.onChange = onChange;
+  }
+
+  start(): void {
+    try {
+      // Recursive watching is native on Windows and macOS
+      this.watchers.set(this.rootPath, fs.watch(this.rootPath, { recursive: true }, (_event, fileName) => {
+        if (fileName) this.record(path.join(this.rootPath, fileName.toString()));
+      }));
+    } catch {
+      // Elsewhere, watch every directory and pick up new ones as they appear
+      this.watchTree(this.rootPath);
+    }
+  }
+
+  stop(): void {
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers.clear();
+    this.pending.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private watchTree(dirPath: string): void {
+    if (this.watchers.has(dirPath)) return;
+
+    try {
+      const watcher = fs.watch(dirPath, (_event, fileName) => {
+        if (!fileName) return;
+        const fullPath = path.join(dirPath, fileName.toString());
+        this.record(fullPath);
+        if (fs.existsSync(fullPath) && fs.statSync(fullPath).isDirectory() && !this.isIgnored(fullPath)) {
+          this.watchTree(fullPath);
+        }
+      });
+      // The directory itself was removed
+      watcher.on('error', () => {
+        watcher.close();
+        this.watchers.delete(dirPath);
+      });
+      this.watchers.set(dirPath, watcher);
+
+      for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+        if (entry.isDirectory() && !isIgnoredEntry(entry.name)) {
+          this.watchTree(path.join(dirPath, entry.name));
+        }
+      }
+    } catch (err) {
+      console.error('Failed to watch directory:', dirPath, err);
+    }
+  }
+
+  private isIgnored(fullPath: string): boolean {
+    return path.relative(this.rootPath, fullPath).split(path.sep).some(isIgnoredEntry);
+  }
+
+  private record(fullPath: string): void {
+    if (this.isIgnored(fullPath)) return;
+
+    this.pending.add(fullPath);
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const paths = Array.from(this.pending);
+      this.pending.clear();
+      this.onChange(paths);
+    }, DEBOUNCE_MS);
+  }
+}
@@ -1,12 +1,205 @@
 import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
 import * as path from 'path';
 import * as fs from 'fs';
-import type { Symbol } from '../shared/types';
+import type { Symbol, SymbolReference, CallSite, IncludeDirective } from '../shared/types';
+
+// 파일별 변경 감지 정보 (증분 빌드)
+export interface FileRecord {
+  filePath: string;
+  size: number;
+  mtime: number;
+  hash: string;
+}
+
+// 파일 단위 데이터가 들어 있는 테이블
+const PER_FILE_TABLES = ['symbols', 'symbol_refs', 'calls', 'includes', 'files'];
+
+// metadata 테이블에 기록된 빌드 정보
+export interface BuildInfo {
+  schemaVersion: number;
+  parserVersion?: number;  // 마지막 빌드의 심볼 추출 버전 (기록 이전 DB 는 없음)
+  parserBackend?: string;
+  builtAt?: number;        // 마지막 빌드 시각 (ms)
+}
+
+// 쓸 수 없는 DB: 손상(corrupt) 또는 이 버전과 맞지 않음(incompatible). 다시 빌드해야 한다.
+export class DatabaseOpenError extends Error {
+  readonly reason: 'corrupt' | 'incompatible';
+
+  constructor(message: string, reason: 'corrupt' | 'incompatible') {
+    super(message);
+    this.name = 'DatabaseOpenError';
+    this.reason = reason;
+  }
+}
+
+// 스키마 변경 하나 (version 순서대로 한 번만 적용)
+interface Migration {
+  version: number;
+  description: string;
+  up: (db: SqlJsDatabase) => void;
+}
+
+// 컬럼 추가. 버전 기록 이전 DB 에는 이미 있을 수 있어 없을 때만 추가
+function addColumn(db: SqlJsDatabase, table: string, column: string, type: string): void {
+  const info = db.exec(`PRAGMA table_info(${table})`);
+  const names = info.length > 0
+    ? info[0].values.map((row: any) => row[info[0].columns.indexOf('name')] as string)
+    : [];
+  if (!names.includes(column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+  }
+}
+
+// 스키마 이력. 변경은 끝에 새 항목으로만 추가한다 (기존 항목 수정 금지)
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'symbols table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS symbols (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          filePath TEXT NOT NULL,
+          line INTEGER NOT NULL,
+          column INTEGER NOT NULL,
+          endLine INTEGER,
+          endColumn INTEGER,
+          signature TEXT,
+          projectPath TEXT NOT NULL
+        );
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_name ON symbols(name);`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_kind ON symbols(kind);`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_file ON symbols(filePath);`);
+    },
+  },
+  {
+    // 식별자 출현 위치 (Find All References)
+    version: 2,
+    description: 'symbol_refs table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS symbol_refs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          filePath TEXT NOT NULL,
+          line INTEGER NOT NULL,
+          column INTEGER NOT NULL,
+          projectPath TEXT NOT NULL
+        );
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_ref_name ON symbol_refs(name);`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_ref_file ON symbol_refs(filePath);`);
+    },
+  },
+  {
+    version: 3,
+    description: 'symbol container',
+    up: (db) => addColumn(db, 'symbols', 'container', 'TEXT'),
+  },
+  {
+    version: 4,
+    description: 'symbol storage and definition flag',
+    up: (db) => {
+      addColumn(db, 'symbols', 'storage', 'TEXT');
+      addColumn(db, 'symbols', 'isDefinition', 'INTEGER');
+    },
+  },
+  {
+    version: 5,
+    description: 'symbol qualified name',
+    up: (db) => addColumn(db, 'symbols', 'qualifiedName', 'TEXT'),
+  },
+  {
+    version: 6,
+    description: 'Python decorators, bases and imports',
+    up: (db) => {
+      addColumn(db, 'symbols', 'decorators', 'TEXT');
+      addColumn(db, 'symbols', 'bases', 'TEXT');
+      addColumn(db, 'symbols', 'importModule', 'TEXT');
+      addColumn(db, 'symbols', 'importName', 'TEXT');
+    },
+  },
+  {
+    // 함수 호출 관계 (Call Hierarchy)
+    version: 7,
+    description: 'calls table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS calls (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          caller TEXT NOT NULL,
+          callerQualifiedName TEXT,
+          callee TEXT NOT NULL,
+          filePath TEXT NOT NULL,
+          line INTEGER NOT NULL,
+          column INTEGER NOT NULL,
+          projectPath TEXT NOT NULL
+        );
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_call_caller ON calls(caller);`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_call_callee ON calls(callee);`);
+    },
+  },
+  {
+    // #include 관계 (Includes / Included By)
+    version: 8,
+    description: 'includes table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS includes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          filePath TEXT NOT NULL,
+          line INTEGER NOT NULL,
+          column INTEGER NOT NULL,
+          header TEXT NOT NULL,
+          isSystem INTEGER NOT NULL,
+          resolvedPath TEXT,
+          projectPath TEXT NOT NULL
+        );
+      `);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_include_file ON includes(filePath);`);
+      db.run(`CREATE INDEX IF NOT EXISTS idx_include_resolved ON includes(resolvedPath);`);
+    },
+  },
+  {
+    // 파일 크기/수정 시각/내용 해시 (증분 빌드)
+    version: 9,
+    description: 'files table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS files (
+          filePath TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          mtime REAL NOT NULL,
+          hash TEXT NOT NULL,
+          projectPath TEXT NOT NULL,
+          PRIMARY KEY (projectPath, filePath)
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    description: 'symbol #if condition',
+    up: (db) => addColumn(db, 'symbols', 'condition', 'TEXT'),
+  },
+];
+
+// 이 버전이 만드는 스키마 버전
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// 나중에 저장할 때 변경을 모아 두는 시간 (파일 감시 배치마다 DB 전체를 다시 쓰지 않도록)
+const PERSIST_DELAY_MS = 2000;
 
 export class SymbolDatabase {
   private db: SqlJsDatabase | null = null;
   private dbPath: string = '';
   private SQL: any = null;
+  private persistTimer: NodeJS.Timeout | null = null;
 
   constructor() {}
 
@@ -15,46 +208,159 @@ export class SymbolDatabase {
     return path.join(projectPath, '.sourceviewer.db');
   }
 
-  // 데이터베이스 초기화
-  async open(projectPath: string): Promise<void> {
+  // 데이터베이스 초기화 (recreate 이면 기존 파일을 무시하고 새로 만든다)
+  async open(projectPath: string, recreate = false): Promise<void> {
+    // 이전에 열려 있던 DB가 있으면 닫기 (예약된 저장은 이전 경로에 마침)
+    this.close();
     this.dbPath = this.getDbPath(projectPath);
-    
+
     // sql.js 초기화
     if (!this.SQL) {
       this.SQL = await initSqlJs();
     }
 
-    // 기존 DB 파일이 있으면 로드
-    if (fs.existsSync(this.dbPath)) {
-      const buffer = fs.readFileSync(this.dbPath);
-      this.db = new this.SQL.Database(buffer);
-    } else {
-      this.db = new this.SQL.Database();
+    // 기존 DB 파일이 있으면 로드 (sql.js 는 손상된 파일을 첫 조회에서야 알린다)
+    const existing = !recreate && fs.existsSync(this.dbPath);
+    let check: string;
+    try {
+      this.db = existing ? new this.SQL.Database(fs.readFileSync(this.dbPath)) : new this.SQL.Database();
+      const result = this.db!.exec('PRAGMA quick_check');
+      check = result.length > 0 ? String(result[0].values[0][0]) : 'ok';
+    } catch (err) {
+      check = err instanceof Error ? err.message : String(err);
     }
-    
-    if (!this.db) {
-      throw new Error('Failed to initialize database');
+    if (check !== 'ok') {
+      this.close();
+      throw new DatabaseOpenError(`${this.dbPath} is damaged (${check})`, 'corrupt');
     }
-    
-    // 테이블 생성
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS symbols (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        name TEXT NOT NULL,
-        kind TEXT NOT NULL,
-        filePath TEXT NOT NULL,
-        line INTEGER NOT NULL,
-        column INTEGER NOT NULL,
-        endLine INTEGER,
-        endColumn INTEGER,
-        signature TEXT,
-        projectPath TEXT NOT NULL
+
+    if (this.migrate() && existing) {
+      // 업그레이드한 스키마를 바로 파일에 반영
+      this.persist();
+    }
+  }
+
+  // 저장된 스키마 버전 이후의 마이그레이션을 순서대로 적용 (적용한 것이 있으면 true)
+  private migrate(): boolean {
+    if (!this.db) return false;
+
+    this.db.run('CREATE TABLE IF NOT EXISTS metadata (key TEXT PRIMARY KEY, value TEXT)');
+    // metadata 가 없던 DB 는 버전 0 (버전 기록 이전에 만들어진 DB 포함)
+    const version = Number(this.getMetadata('schemaVersion') ?? 0);
+    if (version > SCHEMA_VERSION) {
+      this.close();
+      throw new DatabaseOpenError(
+        `${this.dbPath} uses schema version ${version}, newer than this version supports (${SCHEMA_VERSION})`,
+        'incompatible'
       );
-    `);
-    
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_name ON symbols(name);`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_kind ON symbols(kind);`);
-    this.db.run(`CREATE INDEX IF NOT EXISTS idx_file ON symbols(filePath);`);
+    }
+
+    const pending = MIGRATIONS.filter(migration => migration.version > version);
+    if (pending.length === 0) return false;
+
+    let current: Migration | null = null;
+    this.db.run('BEGIN TRANSACTION');
+    try {
+      for (const migration of pending) {
+        current = migration;
+        migration.up(this.db);
+      }
+      this.setMetadata('schemaVersion', String(SCHEMA_VERSION));
+      this.db.run('COMMIT');
+    } catch (err) {
+      this.db.run('ROLLBACK');
+      this.close();
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new DatabaseOpenError(
+        `${this.dbPath} could not be upgraded from schema version ${version} (${current?.description}: ${reason})`,
+        'incompatible'
+      );
+    }
+    return true;
+  }
+
+  private getMetadata(key: string): string | undefined {
+    const result = this.db?.exec('SELECT value FROM metadata WHERE key = ?', [key]);
+    return result && result.length > 0 ? (result[0].values[0][0] as string) : undefined;
+  }
+
+  private setMetadata(key: string, value: string): void {
+    this.db?.run('INSERT OR REPLACE INTO metadata (key, value) VALUES (?, ?)', [key, value]);
+  }
+
+  // 스키마/파서 버전과 마지막 빌드 시각
+  getBuildInfo(): BuildInfo {
+    const parserVersion = this.getMetadata('parserVersion');
+    const builtAt = this.getMetadata('builtAt');
+    return {
+      schemaVersion: Number(this.getMetadata('schemaVersion') ?? 0),
+      parserVersion: parserVersion !== undefined ? Number(parserVersion) : undefined,
+      parserBackend: this.getMetadata('parserBackend'),
+      builtAt: builtAt !== undefined ? Number(builtAt) : undefined,
+    };
+  }
+
+  // 빌드 정보 기록 (파일 기록은 saveSymbols 에서 함께 수행)
+  saveBuildInfo(info: { parserVersion: number; parserBackend: string; builtAt: number }): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    this.setMetadata('parserVersion', String(info.parserVersion));
+    this.setMetadata('parserBackend', info.parserBackend);
+    this.setMetadata('builtAt', String(info.builtAt));
+  }
+
+  // 파일에 저장 (예약된 저장이 있으면 함께 처리)
+  private persist(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.db) return;
+    fs.writeFileSync(this.dbPath, this.db.export());
+  }
+
+  // 잠시 뒤 한 번만 저장 (이미 예약되어 있으면 그 저장에 포함, 남은 저장은 close 에서 수행)
+  private schedulePersist(): void {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      try {
+        this.persist();
+      } catch (err) {
+        console.error('Failed to save symbol database:', this.dbPath, err);
+      }
+    }, PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  // 조회 결과 행을 Symbol 로 변환
+  private rowToSymbol(columns: string[], row: any[]): Symbol {
+    return {
+      name: row[columns.indexOf('name')] as string,
+      kind: row[columns.indexOf('kind')] as any,
+      filePath: row[columns.indexOf('filePath')] as string,
+      line: row[columns.indexOf('line')] as number,
+      column: row[columns.indexOf('column')] as number,
+      endLine: (row[columns.indexOf('endLine')] ?? undefined) as number | undefined,
+      endColumn: (row[columns.indexOf('endColumn')] ?? undefined) as number | undefined,
+      signature: (row[columns.indexOf('signature')] ?? undefined) as string | undefined,
+      qualifiedName: (row[columns.indexOf('qualifiedName')] ?? undefined) as string | undefined,
+      container: (row[columns.indexOf('container')] ?? undefined) as string | undefined,
+      storage: (row[columns.indexOf('storage')] ?? undefined) as Symbol['storage'],
+      isDefinition: row[columns.indexOf('isDefinition')] === null ? undefined : row[columns.indexOf('isDefinition')] === 1,
+      // 목록 값은 JSON 문자열로 저장
+      decorators: row[columns.indexOf('decorators')] ? JSON.parse(row[columns.indexOf('decorators')] as string) : undefined,
+      bases: row[columns.indexOf('bases')] ? JSON.parse(row[columns.indexOf('bases')] as string) : undefined,
+      importModule: (row[columns.indexOf('importModule')] ?? undefined) as string | undefined,
+      importName: (row[columns.indexOf('importName')] ?? undefined) as string | undefined,
+      condition: (row[columns.indexOf('condition')] ?? undefined) as string | undefined,
+    };
+  }
+
+  // 데이터베이스가 열려 있는지 확인
+  isOpen(): boolean {
+    return this.db !== null;
   }
 
   // 데이터베이스 존재 확인
@@ -63,10 +369,8 @@ export class SymbolDatabase {
     return fs.existsSync(dbPath);
   }
 
-  // 데이터베이스 로드
-  async load(projectPath: string): Promise<Map<string, Symbol[]>> {
-    await this.open(projectPath);
-    
+  // 열려 있는 DB 에서 프로젝트의 모든 심볼 조회
+  loadSymbols(projectPath: string): Map<string, Symbol[]> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
@@ -79,16 +383,7 @@ export class SymbolDatabase {
       const values = result[0].values;
 
       for (const row of values) {
-        const symbol: Symbol = {
-          name: row[columns.indexOf('name')] as string,
-          kind: row[columns.indexOf('kind')] as any,
-          filePath: row[columns.indexOf('filePath')] as string,
-          line: row[columns.indexOf('line')] as number,
-          column: row[columns.indexOf('column')] as number,
-          endLine: row[columns.indexOf('endLine')] as number | undefined,
-          endColumn: row[columns.indexOf('endColumn')] as number | undefined,
-          signature: row[columns.indexOf('signature')] as string | undefined,
-        };
+        const symbol = this.rowToSymbol(columns, row);
 
         if (!symbolMap.has(symbol.name)) {
           symbolMap.set(symbol.name, []);
@@ -100,20 +395,126 @@ export class SymbolDatabase {
     return symbolMap;
   }
 
-  // 심볼 저장 (배치 처리)
-  saveSymbols(symbols: Symbol[], projectPath: string): void {
+  // 프로젝트의 모든 데이터 삭제 (전체 재빌드)
+  clearProject(projectPath: string): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    for (const table of PER_FILE_TABLES) {
+      this.db.run(`DELETE FROM ${table} WHERE projectPath = ?`, [projectPath]);
+    }
+  }
+
+  // 변경/삭제된 파일의 데이터만 삭제 (증분 빌드)
+  removeFiles(filePaths: string[], projectPath: string): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const statements = PER_FILE_TABLES.map(table =>
+      this.db!.prepare(`DELETE FROM ${table} WHERE projectPath = ? AND filePath = ?`)
+    );
+    this.db.run('BEGIN TRANSACTION');
+    try {
+      for (const filePath of filePaths) {
+        for (const stmt of statements) {
+          stmt.run([projectPath, filePath]);
+        }
+      }
+      this.db.run('COMMIT');
+    } catch (err) {
+      this.db.run('ROLLBACK');
+      throw err;
+    } finally {
+      statements.forEach(stmt => stmt.free());
+    }
+  }
+
+  // 파일의 심볼만 삭제 (tags 가져오기, 참조/호출/include 는 유지)
+  removeSymbols(filePaths: string[], projectPath: string): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const stmt = this.db.prepare('DELETE FROM symbols WHERE projectPath = ? AND filePath = ?');
+    this.db.run('BEGIN TRANSACTION');
+    try {
+      for (const filePath of filePaths) {
+        stmt.run([projectPath, filePath]);
+      }
+      this.db.run('COMMIT');
+    } catch (err) {
+      this.db.run('ROLLBACK');
+      throw err;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  // 파일별 변경 감지 정보 조회
+  getFileRecords(projectPath: string): Map<string, FileRecord> {
+    const records = new Map<string, FileRecord>();
+    if (!this.db) {
+      return records;
+    }
+
+    const result = this.db.exec('SELECT filePath, size, mtime, hash FROM files WHERE projectPath = ?', [projectPath]);
+    if (result.length > 0) {
+      const columns = result[0].columns;
+      for (const row of result[0].values) {
+        const record: FileRecord = {
+          filePath: row[columns.indexOf('filePath')] as string,
+          size: row[columns.indexOf('size')] as number,
+          mtime: row[columns.indexOf('mtime')] as number,
+          hash: row[columns.indexOf('hash')] as string,
+        };
+        records.set(record.filePath, record);
+      }
+    }
+
+    return records;
+  }
+
+  // 파일별 변경 감지 정보 저장 (있으면 갱신)
+  saveFileRecords(records: FileRecord[], projectPath: string): void {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
-    // 기존 데이터 삭제
-    this.db.run('DELETE FROM symbols WHERE projectPath = ?', [projectPath]);
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO files (filePath, size, mtime, hash, projectPath)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    this.db.run('BEGIN TRANSACTION');
+    try {
+      for (const record of records) {
+        stmt.run([record.filePath, record.size, record.mtime, record.hash, projectPath]);
+      }
+      this.db.run('COMMIT');
+    } catch (err) {
+      this.db.run('ROLLBACK');
+      throw err;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  // 심볼 저장 (배치 처리, 기존 데이터는 clearProject/removeFiles 로 먼저 삭제)
+  // deferPersist 이면 파일 쓰기를 잠시 미뤄 연속된 변경과 함께 저장
+  saveSymbols(symbols: Symbol[], projectPath: string, deferPersist = false): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
 
     // 배치 삽입
     for (const symbol of symbols) {
       this.db.run(`
-        INSERT INTO symbols (name, kind, filePath, line, column, endLine, endColumn, signature, projectPath)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        INSERT INTO symbols (
+          name, kind, filePath, line, column, endLine, endColumn, signature, qualifiedName, container,
+          storage, isDefinition, decorators, bases, importModule, importName, condition, projectPath
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         symbol.name,
         symbol.kind,
@@ -123,23 +524,63 @@ export class SymbolDatabase {
         symbol.endLine || null,
         symbol.endColumn || null,
         symbol.signature || null,
+        symbol.qualifiedName || null,
+        symbol.container || null,
+        symbol.storage || null,
+        symbol.isDefinition === undefined ? null : (symbol.isDefinition ? 1 : 0),
+        symbol.decorators ? JSON.stringify(symbol.decorators) : null,
+        symbol.bases ? JSON.stringify(symbol.bases) : null,
+        symbol.importModule || null,
+        symbol.importName || null,
+        symbol.condition || null,
         projectPath
       ]);
     }
 
     // 파일에 저장
-    const data = this.db.export();
-    fs.writeFileSync(this.dbPath, data);
+    if (deferPersist) {
+      this.schedulePersist();
+    } else {
+      this.persist();
+    }
   }
 
-  // 심볼 검색
-  findSymbol(name: string): Symbol[] {
+  // 식별자 출현 위치 저장 (파일 기록은 saveSymbols 에서 함께 수행)
+  saveReferences(references: SymbolReference[], projectPath: string): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    // 출현 위치는 심볼보다 훨씬 많으므로 prepared statement + 트랜잭션으로 삽입
+    const stmt = this.db.prepare(`
+      INSERT INTO symbol_refs (name, filePath, line, column, projectPath)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    this.db.run('BEGIN TRANSACTION');
+    try {
+      for (const ref of references) {
+        stmt.run([ref.name, ref.filePath, ref.line, ref.column, projectPath]);
+      }
+      this.db.run('COMMIT');
+    } catch (err) {
+      this.db.run('ROLLBACK');
+      throw err;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  // 식별자 출현 위치 검색
+  findReferences(name: string): SymbolReference[] {
     if (!this.db) {
       return [];
     }
 
-    const result = this.db.exec('SELECT * FROM symbols WHERE name = ?', [name]);
-    
+    const result = this.db.exec(
+      'SELECT name, filePath, line, column FROM symbol_refs WHERE name = ? ORDER BY filePath, line, column',
+      [name]
+    );
+
     if (result.length === 0) {
       return [];
     }
@@ -149,16 +590,191 @@ export class SymbolDatabase {
 
     return values.map((row: any) => ({
       name: row[columns.indexOf('name')] as string,
-      kind: row[columns.indexOf('kind')] as any,
       filePath: row[columns.indexOf('filePath')] as string,
       line: row[columns.indexOf('line')] as number,
       column: row[columns.indexOf('column')] as number,
-      endLine: row[columns.indexOf('endLine')] as number | undefined,
-      endColumn: row[columns.indexOf('endColumn')] as number | undefined,
-      signature: row[columns.indexOf('signature')] as string | undefined,
     }));
   }
 
+  // 호출 위치 저장 (파일 기록은 saveSymbols 에서 함께 수행)
+  saveCalls(calls: CallSite[], projectPath: string): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const stmt = this.db.prepare(`
+      INSERT INTO calls (caller, callerQualifiedName, callee, filePath, line, column, projectPath)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.db.run('BEGIN TRANSACTION');
+    try {
+      for (const call of calls) {
+        stmt.run([
+          call.caller,
+          call.callerQualifiedName || null,
+          call.callee,
+          call.filePath,
+          call.line,
+          call.column,
+          projectPath,
+        ]);
+      }
+      this.db.run('COMMIT');
+    } catch (err) {
+      this.db.run('ROLLBACK');
+      throw err;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  // 호출 위치 검색 (column: 'caller' 는 나가는 호출, 'callee' 는 들어오는 호출)
+  findCalls(column: 'caller' | 'callee', name: string): CallSite[] {
+    if (!this.db) {
+      return [];
+    }
+
+    const result = this.db.exec(
+      `SELECT caller, callerQualifiedName, callee, filePath, line, column FROM calls WHERE ${column} = ? ORDER BY filePath, line, column`,
+      [name]
+    );
+
+    if (result.length === 0) {
+      return [];
+    }
+
+    const columns = result[0].columns;
+    const values = result[0].values;
+
+    return values.map((row: any) => ({
+      caller: row[columns.indexOf('caller')] as string,
+      callerQualifiedName: (row[columns.indexOf('callerQualifiedName')] ?? undefined) as string | undefined,
+      callee: row[columns.indexOf('callee')] as string,
+      filePath: row[columns.indexOf('filePath')] as string,
+      line: row[columns.indexOf('line')] as number,
+      column: row[columns.indexOf('column')] as number,
+    }));
+  }
+
+  // #include 관계 저장 (파일 기록은 saveSymbols 에서 함께 수행)
+  saveIncludes(includes: IncludeDirective[], projectPath: string): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const stmt = this.db.prepare(`
+      INSERT INTO includes (filePath, line, column, header, isSystem, resolvedPath, projectPath)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.db.run('BEGIN TRANSACTION');
+    try {
+      for (const include of includes) {
+        stmt.run([
+          include.filePath,
+          include.line,
+          include.column,
+          include.header,
+          include.isSystem ? 1 : 0,
+          include.resolvedPath || null,
+          projectPath,
+        ]);
+      }
+      this.db.run('COMMIT');
+    } catch (err) {
+      this.db.run('ROLLBACK');
+      throw err;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  // 저장된 #include 의 헤더 경로 다시 계산 (헤더 파일이 추가/삭제된 경우)
+  updateIncludeResolution(projectPath: string, resolve: (include: IncludeDirective) => string | undefined): void {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    const result = this.db.exec(
+      'SELECT id, filePath, line, column, header, isSystem, resolvedPath FROM includes WHERE projectPath = ?',
+      [projectPath]
+    );
+    if (result.length === 0) {
+      return;
+    }
+
+    const columns = result[0].columns;
+    const stmt = this.db.prepare('UPDATE includes SET resolvedPath = ? WHERE id = ?');
+    this.db.run('BEGIN TRANSACTION');
+    try {
+      for (const row of result[0].values) {
+        const include: IncludeDirective = {
+          filePath: row[columns.indexOf('filePath')] as string,
+          line: row[columns.indexOf('line')] as number,
+          column: row[columns.indexOf('column')] as number,
+          header: row[columns.indexOf('header')] as string,
+          isSystem: row[columns.indexOf('isSystem')] === 1,
+          resolvedPath: (row[columns.indexOf('resolvedPath')] ?? undefined) as string | undefined,
+        };
+        const resolvedPath = resolve(include);
+        if (resolvedPath !== include.resolvedPath) {
+          stmt.run([resolvedPath || null, row[columns.indexOf('id')] as number]);
+        }
+      }
+      this.db.run('COMMIT');
+    } catch (err) {
+      this.db.run('ROLLBACK');
+      throw err;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  // #include 검색 (column: 'filePath' 는 포함하는 헤더, 'resolvedPath' 는 포함되는 곳)
+  findIncludes(column: 'filePath' | 'resolvedPath', filePath: string): IncludeDirective[] {
+    if (!this.db) {
+      return [];
+    }
+
+    const result = this.db.exec(
+      `SELECT filePath, line, column, header, isSystem, resolvedPath FROM includes WHERE ${column} = ? ORDER BY filePath, line`,
+      [filePath]
+    );
+
+    if (result.length === 0) {
+      return [];
+    }
+
+    const columns = result[0].columns;
+    const values = result[0].values;
+
+    return values.map((row: any) => ({
+      filePath: row[columns.indexOf('filePath')] as string,
+      line: row[columns.indexOf('line')] as number,
+      column: row[columns.indexOf('column')] as number,
+      header: row[columns.indexOf('header')] as string,
+      isSystem: row[columns.indexOf('isSystem')] === 1,
+      resolvedPath: (row[columns.indexOf('resolvedPath')] ?? undefined) as string | undefined,
+    }));
+  }
+
+  // 심볼 검색
+  findSymbol(name: string): Symbol[] {
+    if (!this.db) {
+      return [];
+    }
+
+    const result = this.db.exec('SELECT * FROM symbols WHERE name = ?', [name]);
+    
+    if (result.length === 0) {
+      return [];
+    }
+
+    const columns = result[0].columns;
+    const values = result[0].values;
+
+    return values.map((row: any) => this.rowToSymbol(columns, row));
+  }
+
   // 통계 정보
   getStats(): { totalSymbols: number; byKind: Record<string, number> } {
     if (!this.db) {
@@ -188,8 +804,11 @@ export class SymbolDatabase {
     };
   }
 
-  // 데이터베이스 닫기
+  // 데이터베이스 닫기 (미뤄 둔 저장이 있으면 먼저 저장)
   close(): void {
+    if (this.persistTimer) {
+      this.persist();
+    }
     if (this.db) {
       this.db.close();
       this.db = null;
@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLanguageFromExtension } from './fileSystem';
+import type { Symbol, SymbolExportFormat, SymbolExportOptions } from '../shared/types';
+
+// Universal Ctags kind letters; the kinds tagsImport reads back
+const C_KIND_LETTERS: Record<Symbol['kind'], string> = {
+  function: 'f', method: 'f', class: 'c', struct: 's', union: 'u', enum: 'g', enumerator: 'e',
+  field: 'm', typedef: 't', macro: 'd', variable: 'v', import: 'h',
+};
+
+const PYTHON_KIND_LETTERS: Partial<Record<Symbol['kind'], string>> = {
+  class: 'c', function: 'f', method: 'm', variable: 'v',
+};
+
+const CTAGS_LANGUAGES: Record<string, string> = { c: 'C', cpp: 'C++', python: 'Python' };
+
+const CSV_COLUMNS: Array<keyof Symbol> = [
+  'name', 'kind', 'filePath', 'line', 'column', 'endLine', 'endColumn', 'qualifiedName', 'container',
+  'storage', 'isDefinition', 'signature', 'condition',
+];
+
+export const EXPORT_FILE_NAMES: Record<SymbolExportFormat, string> = {
+  ctags: 'tags',
+  json: 'symbols.json',
+  csv: 'symbols.csv',
+};
+
+// Symbols of the chosen kinds under the chosen directory, in name/file/line order
+export function selectSymbols(symbols: Symbol[], options: SymbolExportOptions): Symbol[] {
+  const kinds = new Set(options.kinds);
+  const directory = options.directory ? path.resolve(options.directory) + path.sep : '';
+  return symbols
+    .filter(symbol => kinds.size === 0 || kinds.has(symbol.kind))
+    .filter(symbol => !directory || path.resolve(symbol.filePath).startsWith(directory))
+    .sort((a, b) =>
+      (a.name < b.name ? -1 : a.name > b.name ? 1 : 0) ||
+      a.filePath.localeCompare(b.filePath) ||
+      a.line - b.line
+    );
+}
+
+function toPortablePath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+// Parameter list of a function signature, "(int a, char *b)"
+function parameterList(symbol: Symbol): string | undefined {
+  const signature = symbol.signature ?? '';
+  const start = signature.indexOf('(', Math.max(0, signature.indexOf(symbol.name)));
+  if (start === -1) return undefined;
+
+  let depth = 0;
+  for (let i = start; i < signature.length; i++) {
+    if (signature[i] === '(') depth++;
+    if (signature[i] === ')' && --depth === 0) {
+      return signature.substring(start, i + 1).replace(/\s+/g, ' ');
+    }
+  }
+  return undefined;
+}
+
+// Tag field values may not hold tabs, newlines or unescaped backslashes
+function escapeField(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+}
+
+// Search command matching the symbol's source line, or its line number when the file
+// cannot be read or has changed since indexing
+function tagAddress(symbol: Symbol, readLines: (filePath: string) => string[] | null): string {
+  const lineText = readLines(symbol.filePath)?.[symbol.line - 1];
+  if (lineText === undefined || !lineText.includes(symbol.name)) {
+    return String(symbol.line);
+  }
+  return `/^${lineText.replace(/\\/g, '\\\\').replace(/\//g, '\\/')}$/`;
+}
+
+// Extended-format tags file; paths are relative to outputDir, where the file is written
+export function formatCtags(symbols: Symbol[], outputDir: string): string {
+  const sourceLines: Map<string, string[] | null> = new Map();
+  const readLines = (filePath: string) => {
+    if (!sourceLines.has(filePath)) {
+      try {
+        sourceLines.set(filePath, fs.readFileSync(filePath, 'utf-8').split('\n').map(l => l.replace(/\r$/, '')));
+      } catch {
+        sourceLines.set(filePath, null);
+      }
+    }
+    return sourceLines.get(filePath)!;
+  };
+
+  // Kind of each scope, for the scope:<kind>:<name> field
+  const scopeKinds = new Map<string, Symbol['kind']>();
+  for (const symbol of symbols) {
+    if (['class', 'struct', 'union', 'enum'].includes(symbol.kind)) {
+      scopeKinds.set(symbol.qualifiedName ?? symbol.name, symbol.kind);
+    }
+  }
+
+  const lines = [
+    '!_TAG_FILE_FORMAT\t2\t/extended format; --format=1 will not append ;" to lines/',
+    '!_TAG_FILE_SORTED\t1\t/0=unsorted, 1=sorted, 2=foldcase/',
+    '!_TAG_PROGRAM_NAME\tSource Code Viewer\t//',
+  ];
+
+  for (const symbol of symbols) {
+    const language = getLanguageFromExtension(symbol.filePath);
+    const isPython = language === 'python';
+    let letter = isPython ? PYTHON_KIND_LETTERS[symbol.kind] : C_KIND_LETTERS[symbol.kind];
+    if (symbol.kind === 'import') {
+      // Python imports: modules and names taken from them; C #includes are not symbols
+      if (!isPython) continue;
+      letter = symbol.importName ? 'x' : 'i';
+    }
+    if (!letter) continue;
+    if (!isPython && symbol.isDefinition === false) {
+      if (symbol.kind === 'function' || symbol.kind === 'method') letter = 'p';
+      if (symbol.kind === 'variable') letter = 'x';
+    }
+
+    const fields = [letter, `line:${symbol.line}`];
+    if (CTAGS_LANGUAGES[language]) {
+      fields.push(`language:${CTAGS_LANGUAGES[language]}`);
+    }
+    if (symbol.container) {
+      const scopeKind = scopeKinds.get(symbol.container) ?? (isPython ? 'class' : 'namespace');
+      fields.push(`scope:${scopeKind}:${escapeField(symbol.container)}`);
+    }
+    if (symbol.storage === 'static') {
+      fields.push('file:');
+    }
+    if (symbol.kind === 'function' || symbol.kind === 'method') {
+      const parameters = parameterList(symbol);
+      if (parameters) fields.push(`signature:${escapeField(parameters)}`);
+    }
+    if (symbol.endLine !== undefined) {
+      fields.push(`end:${symbol.endLine}`);
+    }
+
+    const file = toPortablePath(path.relative(outputDir, symbol.filePath));
+    lines.push(`${symbol.name}\t${file}\t${tagAddress(symbol, readLines)};"\t${fields.join('\t')}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+// Every field of each symbol, file paths relative to the project root
+export function formatJson(symbols: Symbol[], projectPath: string): string {
+  return JSON.stringify({
+    root: projectPath,
+    symbols: symbols.map(symbol => ({ ...symbol, filePath: toPortablePath(path.relative(projectPath, symbol.filePath)) })),
+  }, null, 2) + '\n';
+}
+
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per symbol (RFC 4180 quoting), file paths relative to the project root
+export function formatCsv(symbols: Symbol[], projectPath: string): string {
+  const rows = [CSV_COLUMNS.join(',')];
+  for (const symbol of symbols) {
+    const row = { ...symbol, filePath: toPortablePath(path.relative(projectPath, symbol.filePath)) };
+    rows.push(CSV_COLUMNS.map(column => csvValue(row[column])).join(','));
+  }
+  return rows.join('\r\n') + '\r\n';
+}
+
+export function formatSymbols(symbols: Symbol[], format: SymbolExportFormat, projectPath: string, outputPath: string): string {
+  switch (format) {
+    case 'ctags':
+      return formatCtags(symbols, path.dirname(outputPath));
+    case 'json':
+      return formatJson(symbols, projectPath);
+    case 'csv':
+      return formatCsv(symbols, projectPath);
+  }
+}
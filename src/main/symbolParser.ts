@@ -1,95 +1,558 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import type { Symbol, SymbolIndex, BuildProgress } from '../shared/types';
-import { SymbolDatabase } from './symbolDatabase';
-import { BrowserWindow } from 'electron';
+import * as crypto from 'crypto';
+import type {
+  Symbol, SymbolIndex, SymbolReference, BuildProgress, DefinitionRequest, CallSite, CallHierarchyItem,
+  IncludeDirective, ParserBackend,
+} from '../shared/types';
+import { SymbolDatabase, FileRecord, DatabaseOpenError } from './symbolDatabase';
+import { ParserPool, ParseTask } from './parserPool';
+import { TreeSitterParser } from './treeSitterParser';
+import { getLanguageFromExtension, isIgnoredEntry, isSupportedFile } from './fileSystem';
+import {
+  stripCppCommentsAndStrings,
+  stripPythonCommentsAndStrings,
+  blankPreprocessorDirectives,
+  blankInactiveBranches,
+  blankUnbalancedAlternatives,
+  findMatchingBrace,
+  findMatchingParen,
+  splitTopLevel,
+  scanTopLevelStatements,
+  findNamespaceRanges,
+  NamespaceRange,
+} from './lexer';
+import { evaluateCondition, findLineConditions, Defines } from '../shared/preprocessor';
+
+// Keywords that are never recorded as identifier references
+const CPP_KEYWORDS = new Set([
+  'auto', 'break', 'case', 'char', 'const', 'continue', 'default', 'define', 'defined',
+  'do', 'double', 'elif', 'else', 'endif', 'enum', 'error', 'extern', 'float', 'for',
+  'goto', 'if', 'ifdef', 'ifndef', 'include', 'inline', 'int', 'long', 'pragma',
+  'register', 'return', 'short', 'signed', 'sizeof', 'static', 'struct', 'switch',
+  'typedef', 'undef', 'union', 'unsigned', 'void', 'volatile', 'while', 'class',
+  'namespace', 'template', 'typename', 'public', 'private', 'protected', 'virtual',
+  'new', 'delete', 'this', 'true', 'false', 'bool', 'operator', 'using',
+]);
+
+const PYTHON_KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class',
+  'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from',
+  'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass',
+  'raise', 'return', 'try', 'while', 'with', 'yield', 'self',
+]);
+
+// Specifiers written like calls that never name a function themselves
+const CALL_LIKE_SPECIFIERS = new Set([
+  '__attribute__', '__declspec', 'alignas', '_Alignas', 'asm', '__asm', '__asm__',
+  '__volatile__', 'decltype', 'typeof', '__typeof__', '_Pragma',
+]);
+
+// Words followed by '(' inside function bodies that are not calls
+const NON_CALL_WORDS = new Set([
+  'catch', 'throw', 'noexcept', 'static_assert', '_Static_assert', 'alignof', '_Alignof',
+]);
+
+// Everything extracted from one source file; produced on a worker thread and merged
+// into the indexes on the main thread
+export interface FileAnalysis {
+  filePath: string;
+  symbols: Symbol[];
+  references: SymbolReference[];
+  calls: CallSite[];
+  includes: IncludeDirective[];
+}
+
+// Version of symbol extraction stored with each build. Bump it when the symbols (or
+// references, calls, includes) produced for the same source change, so databases
+// built by an older release are rebuilt instead of answering with stale data.
+export const PARSER_VERSION = 1;
+
+// Outcome of buildSymbolDatabase
+export interface BuildSummary {
+  parsedFiles: number;
+  skippedFiles: number;   // unchanged since the previous build
+  removedFiles: number;   // deleted since the previous build
+  totalSymbols: number;
+}
+
+// Files affected by changes on disk, as applied by applyFileChanges
+export interface FileChanges {
+  changed: string[];      // added or modified source files, re-parsed
+  added: string[];        // subset of changed that was not indexed before
+  removed: string[];      // indexed files that no longer exist
+  treeChanged: boolean;   // files or directories were added or removed
+}
+
+type AggregateKind = 'enum' | 'struct' | 'union' | 'class';
+
+// Access labels that prefix the next member of a class body
+const ACCESS_LABEL_PATTERN = /^\s*(?:(?:public|private|protected)\s*:(?!:)\s*)+/;
+
+// Name of the function declared by a file-scope header such as
+// "static int foo(int a)", "Foo::Foo()" or "int BCMRAMFN(foo)(void)", plus the
+// class/namespace qualifier written in front of it ("Foo" for "Foo::init").
+// Returns null for initialized variables, function pointers and macro invocations.
+// Inside a class body, constructorName allows "Foo(int x)" without a return type.
+function functionName(
+  header: string,
+  constructorName?: string
+): { name: string; offset: number; qualifier?: string } | null {
+  if (splitTopLevel(header, 0, header.length, '=').length > 1 && !/\boperator\s*[^\w\s]*=/.test(header)) {
+    return null;
+  }
+
+  let i = 0;
+  while (i < header.length) {
+    if (header[i] !== '(') {
+      i++;
+      continue;
+    }
+
+    const close = findMatchingParen(header, i);
+    if (close === -1) return null;
+
+    const before = header.substring(0, i);
+    const ident = before.match(/((?:[A-Za-z_]\w*\s*::\s*)*~?[A-Za-z_]\w*)\s*$/);
+    if (!ident) return null;
+
+    const identText = ident[1];
+    const lastName = identText.split('::').pop()!.trim().replace(/^~/, '');
+    if (CALL_LIKE_SPECIFIERS.has(lastName)) {
+      i = close + 1;
+      continue;
+    }
+    if (CPP_KEYWORDS.has(lastName)) return null;
+
+    // The declaration needs a return type unless it is a qualified constructor/destructor
+    const prefix = before.substring(0, ident.index!).trim();
+    const isConstructor = constructorName !== undefined && lastName === constructorName;
+    if (!identText.includes('::') && !isConstructor && !/[\w*&>\]]$/.test(prefix)) return null;
+
+    // Attribute-style wrapper macro: MACRO(name)(params)
+    const inner = header.substring(i + 1, close).match(/^\s*([A-Za-z_]\w*)\s*$/);
+    if (inner && /^\s*\(/.test(header.substring(close + 1))) {
+      return { name: inner[1], offset: i + 1 + header.substring(i + 1, close).indexOf(inner[1]) };
+    }
+
+    const qualifier = identText.includes('::')
+      ? identText.substring(0, identText.lastIndexOf('::')).replace(/\s+/g, '')
+      : undefined;
+    return { name: lastName, offset: ident.index! + identText.lastIndexOf(lastName), qualifier };
+  }
+
+  return null;
+}
+
+// Name declared by one declarator ("*p", "buf[16]", "(*cb)(void)", "flag : 1", "x = 3").
+// With requireType the text must also contain a type in front of the name.
+function declaratorName(text: string, requireType: boolean): { name: string; offset: number } | null {
+  // Function pointers are kept; anything else with parentheses is a function
+  const fnPointer = text.match(/\(\s*[*&]\s*(\w+)\s*\)/);
+  if (fnPointer) {
+    const name = fnPointer[1];
+    return CPP_KEYWORDS.has(name) ? null : { name, offset: text.indexOf(name, fnPointer.index) };
+  }
+
+  // Drop initializers, bit-field widths and array dimensions
+  const declarator = text
+    .replace(/\s*(?:=|(?<!:):(?!:))[\s\S]*$/, '')
+    .replace(/\[[^\]]*\]/g, '');
+  if (declarator.includes('(')) return null;
+
+  const m = declarator.match(/([A-Za-z_]\w*)\s*$/);
+  if (!m || CPP_KEYWORDS.has(m[1])) return null;
+  if (requireType && !/[\w>][\s*&]+[A-Za-z_]\w*\s*$/.test(declarator)) return null;
+
+  return { name: m[1], offset: m.index! };
+}
 
 // Simple regex-based symbol parser for C/C++/Python
 export class SymbolParser {
   private symbolIndex: SymbolIndex = {};
+  // symbolIndex by file, built on first use after the index changes (scope lookups)
+  private fileSymbolIndex: Map<string, Symbol[]> | null = null;
+  // In-memory identifier occurrences; used until they are persisted to the database
+  private referenceIndex: Map<string, SymbolReference[]> = new Map();
+  // Call sites found while parsing, until they are saved to the database
+  private callIndex: CallSite[] = [];
+  // #include directives, kept in memory until they are saved to the database
+  private includeIndex: IncludeDirective[] = [];
+  // Extra header search paths (-I), tried after the including file's directory
+  private includeDirectories: string[] = [];
+  // -I directories of single translation units (compile_commands.json); other files use includeDirectories
+  private fileIncludeDirectories: Map<string, string[]> = new Map();
+  // Source files of the current project, for resolving headers by path suffix
+  private projectFiles: string[] = [];
+  private includeResolutionCache: Map<string, string | null> = new Map();
   private database: SymbolDatabase;
   private currentProjectPath: string = '';
+  private lineStartsCache: { lines: string[]; starts: number[] } | null = null;
+  // Defines of the loaded build configuration (null when none is loaded)
+  private defines: Defines | null = null;
+  private conditionCache: Map<string, boolean> = new Map();
+  // Symbol extraction of new parses; references, calls and #includes always use the lexer
+  private parserBackend: ParserBackend = 'regex';
+  private treeSitter: TreeSitterParser | null = null;
+  // Shared by builds and file watcher batches so workers are not started for every batch
+  private parserPool = new ParserPool();
 
   constructor() {
     this.database = new SymbolDatabase();
   }
 
-  // C/C++ function pattern: return_type function_name(params)
-  private cppFunctionPattern = /^\s*(?:(?:static|inline|extern|virtual|explicit)\s+)*(?:\w+(?:\s*\*|\s*&)?(?:\s*::\s*\w+)?)\s+(\w+)\s*\(/gm;
-  
-  // C/C++ class/struct pattern
-  private cppClassPattern = /^\s*(?:class|struct)\s+(\w+)/gm;
+  // C/C++ enum/struct/union/class with a body: [typedef] enum|struct|union|class [tag] [: bases] {
+  private cppAggregatePattern = /\b(typedef\s+)?(enum(?:\s+class)?|struct|union|class)(?:\s+(\w+))?(?:\s*:[^{;()]*?)?\s*\{/g;
   
   // C/C++ typedef pattern: typedef ... name;
   private cppTypedefPattern = /^\s*typedef\s+(.+?)\s+(\w+)\s*;/gm;
   
-  // Python function pattern: def function_name(
-  private pythonFunctionPattern = /^\s*def\s+(\w+)\s*\(/gm;
+  // C/C++ macro pattern: #define NAME (parameters are kept in the signature)
+  private cppDefinePattern = /^(\s*#\s*define\s+)(\w+)/;
+  
+  // Python function pattern: [async] def function_name(
+  private pythonFunctionPattern = /^(\s*(?:async\s+)?def\s+)(\w+)\s*\(/;
   
-  // Python class pattern: class ClassName
-  private pythonClassPattern = /^\s*class\s+(\w+)/gm;
+  // Python class pattern: class ClassName[(bases)]
+  private pythonClassPattern = /^(\s*class\s+)(\w+)\s*(?:\(([\s\S]*)\))?\s*:/;
+
+  // Python decorator pattern: @name[(args)]
+  private pythonDecoratorPattern = /^\s*@\s*(.+?)\s*$/;
+
+  // Python import patterns: import a.b [as c], ... / from [.]a.b import x [as y], ...
+  private pythonImportPattern = /^(\s*)import\s+(.+)$/;
+  private pythonFromImportPattern = /^(\s*)from\s+([.\w]+)\s+import\s+(.+)$/;
 
   async parseFile(filePath: string, language: string): Promise<Symbol[]> {
+    const analysis = await this.analyzeFile(filePath, language);
+    this.addAnalysis(analysis);
+    return analysis.symbols;
+  }
+
+  setParserBackend(backend: ParserBackend): void {
+    this.parserBackend = backend;
+  }
+
+  getParserBackend(): ParserBackend {
+    return this.parserBackend;
+  }
+
+  // Symbols from the tree-sitter grammar, or null when the regex parser has to be used
+  private async parseWithTreeSitter(
+    code: string, content: string, lines: string[], filePath: string, language: string
+  ): Promise<Symbol[] | null> {
+    if (!TreeSitterParser.supports(language)) return null;
+    this.treeSitter = this.treeSitter ?? new TreeSitterParser();
+    try {
+      return await this.treeSitter.parseSymbols(code, content, lines, filePath, language);
+    } catch (err) {
+      console.error(`tree-sitter failed on ${filePath}, using the regex parser:`, err);
+      return null;
+    }
+  }
+
+  // Parse one file without touching the indexes (runs inside parser workers)
+  async analyzeFile(filePath: string, language: string, backend: ParserBackend = this.parserBackend): Promise<FileAnalysis> {
     const content = await fs.promises.readFile(filePath, 'utf-8');
     const lines = content.split('\n');
     const symbols: Symbol[] = [];
+    let includes: IncludeDirective[] = [];
+    // Comments and string literals are blanked before any pattern runs
+    let stripped = content;
 
     if (language === 'c' || language === 'cpp') {
-      symbols.push(...this.parseCppSymbols(content, lines, filePath));
+      // Code in branches no configuration compiles (#if 0, #else of #if 1) is left out,
+      // and so are the later branches of chains whose branches leave braces unbalanced
+      stripped = blankUnbalancedAlternatives(blankInactiveBranches(stripCppCommentsAndStrings(content), null));
+      const parsed = backend === 'tree-sitter'
+        ? await this.parseWithTreeSitter(stripped, content, lines, filePath, language)
+        : null;
+      symbols.push(...(parsed ?? this.parseCppSymbols(content, stripped, lines, filePath)));
+      includes = this.parseIncludes(stripped.split('\n'), lines, filePath);
+
+      // Alternative definitions under #ifdef are told apart by the condition around them
+      const conditions = findLineConditions(stripped.split('\n'));
+      symbols.forEach(symbol => {
+        if (conditions[symbol.line]) {
+          symbol.condition = conditions[symbol.line];
+        }
+      });
     } else if (language === 'python') {
-      symbols.push(...this.parsePythonSymbols(content, lines, filePath));
+      stripped = stripPythonCommentsAndStrings(content);
+      const parsed = backend === 'tree-sitter'
+        ? await this.parseWithTreeSitter(content, content, lines, filePath, language)
+        : null;
+      symbols.push(...(parsed ?? this.parsePythonSymbols(content, stripped, lines, filePath)));
     }
 
-    // Add to index
-    symbols.forEach(symbol => {
+    const code = language === 'python' ? stripped : blankPreprocessorDirectives(stripped);
+
+    return {
+      filePath,
+      symbols,
+      references: this.extractReferences(stripped.split('\n'), filePath, language),
+      calls: this.extractCalls(code, lines, filePath, language, symbols),
+      includes,
+    };
+  }
+
+  private addAnalysis(analysis: FileAnalysis): void {
+    this.fileSymbolIndex = null;
+    analysis.symbols.forEach(symbol => {
+      this.updateActive(symbol);
       if (!this.symbolIndex[symbol.name]) {
         this.symbolIndex[symbol.name] = [];
       }
       this.symbolIndex[symbol.name].push(symbol);
     });
 
-    return symbols;
+    analysis.references.forEach(ref => {
+      if (!this.referenceIndex.has(ref.name)) {
+        this.referenceIndex.set(ref.name, []);
+      }
+      this.referenceIndex.get(ref.name)!.push(ref);
+    });
+
+    this.callIndex.push(...analysis.calls);
+    this.includeIndex.push(...analysis.includes);
   }
 
-  private parseCppSymbols(content: string, lines: string[], filePath: string): Symbol[] {
-    const symbols: Symbol[] = [];
+  // Defines of the loaded build configuration; every symbol's active flag is recomputed
+  setDefines(defines: Defines | null): void {
+    this.defines = defines;
+    this.conditionCache.clear();
+    Object.values(this.symbolIndex).forEach(symbols => symbols.forEach(symbol => this.updateActive(symbol)));
+  }
 
-    // Parse functions
-    let match;
-    this.cppFunctionPattern.lastIndex = 0;
-    while ((match = this.cppFunctionPattern.exec(content)) !== null) {
-      const functionName = match[1];
-      const position = this.getLineAndColumn(content, match.index, lines);
-      
-      symbols.push({
-        name: functionName,
-        kind: 'function',
+  // Symbols whose condition is false under the defines are marked compiled out.
+  // Unconditional symbols, and all symbols while no configuration is loaded, carry no flag.
+  private updateActive(symbol: Symbol): void {
+    if (!symbol.condition || this.defines === null) {
+      delete symbol.active;
+      return;
+    }
+
+    let active = this.conditionCache.get(symbol.condition);
+    if (active === undefined) {
+      active = evaluateCondition(symbol.condition, this.defines) !== false;
+      this.conditionCache.set(symbol.condition, active);
+    }
+    symbol.active = active;
+  }
+
+  // Parse files on the worker pool, merging each result as soon as it arrives
+  private async parseFiles(
+    files: string[],
+    onProgress?: (completed: number, total: number, filePath: string) => void
+  ): Promise<Symbol[]> {
+    const tasks: ParseTask[] = files
+      .map(filePath => ({ filePath, language: getLanguageFromExtension(filePath), backend: this.parserBackend }))
+      .filter(task => task.language !== 'plaintext');
+    const allSymbols: Symbol[] = [];
+
+    await this.parserPool.run(tasks, (analysis, task, completed) => {
+      if (analysis) {
+        this.addAnalysis(analysis);
+        allSymbols.push(...analysis.symbols);
+      }
+      onProgress?.(completed, tasks.length, task.filePath);
+    });
+
+    return allSymbols;
+  }
+
+  // #include "x.h" / <x.h> lines; directives inside comments are already blanked in strippedLines
+  private parseIncludes(strippedLines: string[], lines: string[], filePath: string): IncludeDirective[] {
+    const includes: IncludeDirective[] = [];
+
+    for (let i = 0; i < strippedLines.length; i++) {
+      if (!/^\s*#\s*include\b/.test(strippedLines[i])) continue;
+
+      const match = lines[i].match(/^(\s*#\s*include\s*)(["<])([^">]+)[">]/);
+      if (!match) continue;
+
+      includes.push({
         filePath,
-        line: position.line,
-        column: position.column,
+        line: i + 1,
+        column: match[1].length + 1,
+        header: match[3].trim(),
+        isSystem: match[2] === '<',
       });
     }
 
-    // Parse classes/structs
-    this.cppClassPattern.lastIndex = 0;
-    while ((match = this.cppClassPattern.exec(content)) !== null) {
-      const className = match[1];
-      const position = this.getLineAndColumn(content, match.index, lines);
-      
-      symbols.push({
-        name: className,
-        kind: 'class',
+    return includes;
+  }
+
+  setIncludeDirectories(dirs: string[]): void {
+    this.includeDirectories = dirs;
+    this.includeResolutionCache.clear();
+  }
+
+  setFileIncludeDirectories(dirs: Map<string, string[]>): void {
+    this.fileIncludeDirectories = dirs;
+    this.includeResolutionCache.clear();
+  }
+
+  // Header lookup order: the including file's directory (quoted form only), the -I
+  // directories, then any project file whose path ends with the header path
+  resolveInclude(header: string, fromFile: string, isSystem: boolean): string | null {
+    const fromDir = isSystem ? '' : path.dirname(fromFile);
+    const fileDirectories = this.fileIncludeDirectories.get(fromFile);
+    const searchDirectories = fileDirectories ?? this.includeDirectories;
+    const key = fileDirectories ? `${fromFile}|${fromDir}|${header}` : `${fromDir}|${header}`;
+    if (this.includeResolutionCache.has(key)) {
+      return this.includeResolutionCache.get(key)!;
+    }
+
+    let resolved: string | null = null;
+    for (const dir of fromDir ? [fromDir, ...searchDirectories] : searchDirectories) {
+      const candidate = path.resolve(dir, header);
+      if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+        resolved = candidate;
+        break;
+      }
+    }
+
+    if (!resolved) {
+      // Several copies of a header: take the one sharing the longest directory prefix with the includer
+      const suffix = path.sep + path.normalize(header);
+      const sharedPrefix = (file: string) => {
+        let i = 0;
+        while (i < file.length && file[i] === fromFile[i]) i++;
+        return i;
+      };
+      const matches = this.projectFiles.filter(f => f.endsWith(suffix));
+      matches.sort((a, b) => sharedPrefix(b) - sharedPrefix(a));
+      resolved = matches[0] || null;
+    }
+
+    this.includeResolutionCache.set(key, resolved);
+    return resolved;
+  }
+
+  // Re-resolve the indexed #include directives, e.g. after the -I directories
+  // of the build configuration changed
+  refreshIncludeResolution(): void {
+    if (this.database.isOpen()) {
+      this.database.updateIncludeResolution(this.currentProjectPath, include =>
+        this.resolveInclude(include.header, include.filePath, include.isSystem) || undefined
+      );
+    } else {
+      this.resolveIncludes();
+    }
+  }
+
+  private resolveIncludes(): void {
+    for (const include of this.includeIndex) {
+      include.resolvedPath = this.resolveInclude(include.header, include.filePath, include.isSystem) || undefined;
+    }
+  }
+
+  // Headers included by filePath
+  getIncludes(filePath: string): IncludeDirective[] {
+    if (this.database.isOpen()) {
+      return this.database.findIncludes('filePath', filePath);
+    }
+    return this.includeIndex.filter(include => include.filePath === filePath);
+  }
+
+  // Files whose #include resolves to filePath
+  getIncludedBy(filePath: string): IncludeDirective[] {
+    if (this.database.isOpen()) {
+      return this.database.findIncludes('resolvedPath', filePath);
+    }
+    return this.includeIndex.filter(include => include.resolvedPath === filePath);
+  }
+
+  // Record "name(" inside function bodies as a call from the innermost enclosing function
+  private extractCalls(code: string, lines: string[], filePath: string, language: string, symbols: Symbol[]): CallSite[] {
+    const keywords = language === 'python' ? PYTHON_KEYWORDS : CPP_KEYWORDS;
+    const functions = symbols
+      .filter(s => (s.kind === 'function' || s.kind === 'method') && s.isDefinition !== false && s.endLine !== undefined)
+      .sort((a, b) => a.line - b.line || a.column - b.column);
+    if (functions.length === 0) return [];
+
+    // The names in definitions and declarations ("int foo(", "def foo(") are not calls
+    const declared = new Set(symbols.map(s => `${s.line}:${s.column}`));
+    const calls: CallSite[] = [];
+    const callPattern = /\b([A-Za-z_]\w*)\s*\(/g;
+    let match;
+
+    while ((match = callPattern.exec(code)) !== null) {
+      const callee = match[1];
+      if (keywords.has(callee) || CALL_LIKE_SPECIFIERS.has(callee) || NON_CALL_WORDS.has(callee)) continue;
+      // Skip the tail of numeric literals
+      if (match.index > 0 && /\w/.test(code[match.index - 1])) continue;
+
+      const { line, column } = this.getLineAndColumn(code, match.index, lines);
+      if (declared.has(`${line}:${column}`)) continue;
+
+      // Innermost function whose range contains the call: the last one starting before it
+      let caller: Symbol | undefined;
+      for (const fn of functions) {
+        if (fn.line > line || (fn.line === line && fn.column > column)) break;
+        const endsAfter = line < fn.endLine! ||
+          (line === fn.endLine && (fn.endColumn === undefined || column < fn.endColumn));
+        if (endsAfter) caller = fn;
+      }
+      if (!caller) continue;
+
+      calls.push({
+        caller: caller.name,
+        callerQualifiedName: caller.qualifiedName,
+        callee,
         filePath,
-        line: position.line,
-        column: position.column,
+        line,
+        column,
       });
     }
 
+    return calls;
+  }
+
+  // Record every identifier occurrence outside comments and strings (keywords and numbers excluded)
+  private extractReferences(lines: string[], filePath: string, language: string): SymbolReference[] {
+    const keywords = language === 'python' ? PYTHON_KEYWORDS : CPP_KEYWORDS;
+    const references: SymbolReference[] = [];
+    const identifierPattern = /[A-Za-z_]\w*/g;
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      let match;
+      identifierPattern.lastIndex = 0;
+      while ((match = identifierPattern.exec(line)) !== null) {
+        // Skip the tail of numeric literals such as 0x1F or 10UL
+        if (match.index > 0 && /\w/.test(line[match.index - 1])) continue;
+        if (keywords.has(match[0])) continue;
+
+        references.push({
+          name: match[0],
+          filePath,
+          line: i + 1,
+          column: match.index + 1,
+        });
+      }
+    }
+
+    return references;
+  }
+
+  private parseCppSymbols(content: string, stripped: string, lines: string[], filePath: string): Symbol[] {
+    const symbols: Symbol[] = [];
+    const code = blankPreprocessorDirectives(stripped);
+    const namespaces = findNamespaceRanges(code);
+
+    // Parse functions and out-of-line methods
+    symbols.push(...this.parseCppFunctions(content, code, lines, filePath, namespaces));
+
     // Parse typedefs
+    let match;
     this.cppTypedefPattern.lastIndex = 0;
-    while ((match = this.cppTypedefPattern.exec(content)) !== null) {
+    while ((match = this.cppTypedefPattern.exec(code)) !== null) {
       const typedefName = match[2];
       const typedefDef = match[1];
+      // typedef enum|struct|union { ... } is recorded by parseCppAggregates
+      if (typedefDef.includes('{')) continue;
       const position = this.getLineAndColumn(content, match.index, lines);
       
       symbols.push({
@@ -99,73 +562,639 @@ export class SymbolParser {
         line: position.line,
         column: position.column,
         signature: `typedef ${typedefDef} ${typedefName};`,
+        container: this.namespaceAt(namespaces, match.index),
       });
     }
 
+    // Parse enums, structs and unions along with their enumerators and members
+    symbols.push(...this.parseCppAggregates(content, code, lines, filePath, namespaces));
+
+    // Parse file-scope variables and extern declarations
+    symbols.push(...this.parseCppVariables(content, code, lines, filePath, namespaces));
+
+    // Parse macros
+    symbols.push(...this.parseCppMacros(stripped.split('\n'), lines, filePath));
+
+    // Qualified names follow the container chain (namespace::Class::member)
+    for (const symbol of symbols) {
+      symbol.qualifiedName = symbol.container ? `${symbol.container}::${symbol.name}` : symbol.name;
+    }
+
     return symbols;
   }
 
-  private parsePythonSymbols(content: string, lines: string[], filePath: string): Symbol[] {
+  // Names of the namespaces enclosing offset, joined with '::' (anonymous ones are skipped)
+  private namespaceAt(namespaces: NamespaceRange[], offset: number): string | undefined {
+    const names = namespaces
+      .filter(ns => ns.start < offset && offset < ns.end && ns.name)
+      .map(ns => ns.name);
+    return names.length > 0 ? names.join('::') : undefined;
+  }
+
+  // Functions declared or defined at file scope; bodies are skipped, so calls,
+  // control flow and local declarations are never mistaken for functions.
+  // Definitions carry the extent of their body, prototypes end at their ';'.
+  private parseCppFunctions(
+    content: string,
+    code: string,
+    lines: string[],
+    filePath: string,
+    namespaces: NamespaceRange[]
+  ): Symbol[] {
+    const symbols: Symbol[] = [];
+
+    for (const statement of scanTopLevelStatements(code)) {
+      const header = code.substring(statement.start, statement.end);
+      if (/^\s*(?:typedef|using|friend)\b/.test(header)) continue;
+      // Aggregates and brace initializers are not function declarations
+      if (statement.bodyEnd === undefined && header.includes('{')) continue;
+
+      const fn = functionName(header);
+      if (!fn) continue;
+
+      const isDefinition = statement.bodyEnd !== undefined;
+      const position = this.getLineAndColumn(content, statement.start + fn.offset, lines);
+      const endPosition = this.getLineAndColumn(content, isDefinition ? statement.bodyEnd! : statement.end, lines);
+      // "Foo::init" defined out of line is a method of Foo
+      const container = [this.namespaceAt(namespaces, statement.start), fn.qualifier]
+        .filter(Boolean)
+        .join('::');
+      symbols.push({
+        name: fn.name,
+        kind: fn.qualifier ? 'method' : 'function',
+        filePath,
+        line: position.line,
+        column: position.column,
+        endLine: endPosition.line,
+        endColumn: endPosition.column + 1,
+        signature: header.replace(/\s+/g, ' ').trim(),
+        container: container || undefined,
+        storage: /\bstatic\b/.test(header) ? 'static' : /\bextern\b/.test(header) ? 'extern' : undefined,
+        isDefinition,
+      });
+    }
+
+    return symbols;
+  }
+
+  private parseCppVariables(
+    content: string,
+    code: string,
+    lines: string[],
+    filePath: string,
+    namespaces: NamespaceRange[]
+  ): Symbol[] {
+    const symbols: Symbol[] = [];
+
+    for (const statement of scanTopLevelStatements(code)) {
+      if (statement.bodyEnd !== undefined) continue;
+
+      let text = code.substring(statement.start, statement.end);
+      if (/^\s*(?:typedef|using|template|friend|namespace)\b/.test(text)) continue;
+
+      // struct tag { ... } var; declares variables after the body
+      let declStart = statement.start;
+      const aggregate = text.match(/\b(?:struct|union|enum|class)\b[^({=]*\{/);
+      if (aggregate) {
+        const close = findMatchingBrace(code, statement.start + aggregate.index! + aggregate[0].length - 1);
+        if (close === -1 || close >= statement.end) continue;
+        declStart = close + 1;
+        text = code.substring(declStart, statement.end);
+      }
+
+      const storage = /\bstatic\b/.test(text) ? 'static' : /\bextern\b/.test(text) ? 'extern' : undefined;
+      const signature = code.substring(statement.start, statement.end)
+        .replace(/\{[\s\S]*\}/, '{ ... }')
+        .replace(/\s+/g, ' ')
+        .trim() + ';';
+
+      splitTopLevel(code, declStart, statement.end, ',').forEach(([partStart, partEnd], i) => {
+        const part = code.substring(partStart, partEnd);
+        const declarator = declaratorName(part, i === 0 && !aggregate);
+        if (!declarator) return;
+
+        const hasInitializer = /=/.test(part);
+        const position = this.getLineAndColumn(content, partStart + declarator.offset, lines);
+        symbols.push({
+          name: declarator.name,
+          kind: 'variable',
+          filePath,
+          line: position.line,
+          column: position.column,
+          signature,
+          container: this.namespaceAt(namespaces, statement.start),
+          storage,
+          isDefinition: storage !== 'extern' || hasInitializer,
+        });
+      });
+    }
+
+    return symbols;
+  }
+
+  private parseCppAggregates(
+    content: string,
+    code: string,
+    lines: string[],
+    filePath: string,
+    namespaces: NamespaceRange[]
+  ): Symbol[] {
     const symbols: Symbol[] = [];
 
-    // Parse functions
     let match;
-    this.pythonFunctionPattern.lastIndex = 0;
-    while ((match = this.pythonFunctionPattern.exec(content)) !== null) {
-      const functionName = match[1];
-      const position = this.getLineAndColumn(content, match.index, lines);
-      
+    this.cppAggregatePattern.lastIndex = 0;
+    while ((match = this.cppAggregatePattern.exec(code)) !== null) {
+      const openIndex = match.index + match[0].length - 1;
+      const closeIndex = findMatchingBrace(code, openIndex);
+      if (closeIndex === -1) break;
+
+      const isTypedef = match[1] !== undefined;
+      const keyword = (match[2].startsWith('enum') ? 'enum' : match[2]) as AggregateKind;
+      const tag = match[3];
+      const namespace = this.namespaceAt(namespaces, match.index);
+
+      // typedef enum|struct|union [tag] { ... } name;
+      let typedefName: string | undefined;
+      let typedefIndex = -1;
+      if (isTypedef) {
+        const after = code.substring(closeIndex + 1).match(/^\s*(\w+)\s*[;,[]/);
+        if (after) {
+          typedefName = after[1];
+          typedefIndex = closeIndex + 1 + after[0].indexOf(after[1]);
+        }
+      }
+
+      const typeName = tag || typedefName;
+      const containerName = namespace && typeName ? `${namespace}::${typeName}` : typeName;
+      this.parseAggregate(
+        code, content, lines, filePath, keyword,
+        tag, tag ? match.index + match[0].lastIndexOf(tag) : match.index,
+        openIndex, closeIndex, containerName, namespace, symbols
+      );
+
+      if (typedefName) {
+        const position = this.getLineAndColumn(content, typedefIndex, lines);
+        symbols.push({
+          name: typedefName,
+          kind: 'typedef',
+          filePath,
+          line: position.line,
+          column: position.column,
+          signature: `typedef ${keyword} ${tag || '{ ... }'} ${typedefName};`,
+          container: namespace,
+        });
+      }
+
+      this.cppAggregatePattern.lastIndex = closeIndex + 1;
+    }
+
+    return symbols;
+  }
+
+  // Record one enum/struct/union/class (when named) and everything declared in its body
+  private parseAggregate(
+    code: string,
+    content: string,
+    lines: string[],
+    filePath: string,
+    kind: AggregateKind,
+    name: string | undefined,
+    nameIndex: number,
+    openIndex: number,
+    closeIndex: number,
+    containerName: string | undefined,
+    parentContainer: string | undefined,
+    symbols: Symbol[]
+  ): void {
+    if (name) {
+      const position = this.getLineAndColumn(content, nameIndex, lines);
+      const endPosition = this.getLineAndColumn(content, closeIndex, lines);
       symbols.push({
-        name: functionName,
-        kind: 'function',
+        name,
+        kind,
         filePath,
         line: position.line,
         column: position.column,
+        endLine: endPosition.line,
+        endColumn: endPosition.column,
+        signature: `${kind} ${name}`,
+        container: parentContainer,
       });
     }
 
-    // Parse classes
-    this.pythonClassPattern.lastIndex = 0;
-    while ((match = this.pythonClassPattern.exec(content)) !== null) {
-      const className = match[1];
-      const position = this.getLineAndColumn(content, match.index, lines);
-      
+    if (kind === 'enum') {
+      this.parseEnumerators(code, content, lines, filePath, openIndex + 1, closeIndex, containerName, symbols);
+    } else {
+      this.parseMembers(code, content, lines, filePath, openIndex + 1, closeIndex, kind, name, containerName, symbols);
+    }
+  }
+
+  private parseEnumerators(
+    code: string,
+    content: string,
+    lines: string[],
+    filePath: string,
+    bodyStart: number,
+    bodyEnd: number,
+    containerName: string | undefined,
+    symbols: Symbol[]
+  ): void {
+    for (const [start, end] of splitTopLevel(code, bodyStart, bodyEnd, ',')) {
+      const entry = code.substring(start, end);
+      const m = entry.match(/^(\s*)([A-Za-z_]\w*)\s*(?:=\s*([\s\S]+?))?\s*$/);
+      if (!m) continue;
+
+      const position = this.getLineAndColumn(content, start + m[1].length, lines);
+      const value = m[3];
+      symbols.push({
+        name: m[2],
+        kind: 'enumerator',
+        filePath,
+        line: position.line,
+        column: position.column,
+        signature: value !== undefined ? `${m[2]} = ${value.replace(/\s+/g, ' ')}` : m[2],
+        container: containerName,
+      });
+    }
+  }
+
+  private parseMembers(
+    code: string,
+    content: string,
+    lines: string[],
+    filePath: string,
+    bodyStart: number,
+    bodyEnd: number,
+    kind: AggregateKind,
+    typeName: string | undefined,
+    containerName: string | undefined,
+    symbols: Symbol[]
+  ): void {
+    for (const statement of scanTopLevelStatements(code, bodyStart, bodyEnd)) {
+      // Skip access labels so the member declaration starts at its type
+      const label = code.substring(statement.start, statement.end).match(ACCESS_LABEL_PATTERN);
+      const start = statement.start + (label ? label[0].length : 0);
+      const end = statement.end;
+
+      // Member functions: inline definitions and declarations
+      const header = code.substring(start, end);
+      const method = statement.bodyEnd !== undefined || !header.includes('{')
+        ? functionName(header, typeName)
+        : null;
+      if (method) {
+        const isDefinition = statement.bodyEnd !== undefined;
+        const position = this.getLineAndColumn(content, start + method.offset, lines);
+        const endPosition = this.getLineAndColumn(content, isDefinition ? statement.bodyEnd! : end, lines);
+        symbols.push({
+          name: method.name,
+          kind: 'method',
+          filePath,
+          line: position.line,
+          column: position.column,
+          endLine: endPosition.line,
+          endColumn: endPosition.column + 1,
+          signature: header.replace(/\s+/g, ' ').trim(),
+          container: containerName,
+          storage: /\bstatic\b/.test(header) ? 'static' : undefined,
+          isDefinition,
+        });
+        continue;
+      }
+      if (statement.bodyEnd !== undefined) continue;
+
+      let declStart = start;
+      let declaration = header;
+      const braceIndex = code.indexOf('{', start);
+
+      // Nested aggregate: struct|union|enum|class [tag] { ... } declarators;
+      if (braceIndex !== -1 && braceIndex < end) {
+        const nestedHeader = code.substring(start, braceIndex);
+        const nested = nestedHeader.match(/\b(enum(?:\s+class)?|struct|union|class)(?:\s+(\w+))?(?:\s*:[^{]*)?\s*$/);
+        const closeIndex = findMatchingBrace(code, braceIndex);
+        if (!nested || closeIndex === -1 || closeIndex >= end) continue;
+
+        const nestedKind = (nested[1].startsWith('enum') ? 'enum' : nested[1]) as AggregateKind;
+        const nestedTag = nested[2];
+        const nestedTagIndex = nestedTag ? start + nestedHeader.lastIndexOf(nestedTag) : start;
+        // Members of anonymous nested structs/unions belong to the enclosing type.
+        // Types nested in a C++ class are scoped by it; C struct tags are not.
+        const nestedContainer = nestedTag
+          ? (kind === 'class' && containerName ? `${containerName}::${nestedTag}` : nestedTag)
+          : containerName;
+        this.parseAggregate(
+          code, content, lines, filePath, nestedKind, nestedTag, nestedTagIndex,
+          braceIndex, closeIndex, nestedContainer, containerName, symbols
+        );
+        declStart = closeIndex + 1;
+        declaration = `${nestedHeader}{ ... }${code.substring(declStart, end)}`;
+      }
+
+      const parts = splitTopLevel(code, declStart, end, ',');
+      parts.forEach(([partStart, partEnd], i) => {
+        // Only the first declarator carries the type ("unsigned : 4" is an unnamed bit-field)
+        const declarator = declaratorName(code.substring(partStart, partEnd), i === 0 && declStart === start);
+        if (!declarator) return;
+
+        const fieldName = declarator.name;
+        const nameOffset = declarator.offset;
+        const position = this.getLineAndColumn(content, partStart + nameOffset, lines);
+        symbols.push({
+          name: fieldName,
+          kind: 'field',
+          filePath,
+          line: position.line,
+          column: position.column,
+          signature: declaration.replace(/\s+/g, ' ').trim() + ';',
+          container: containerName,
+        });
+      });
+    }
+  }
+
+  // Object-like and function-like #define macros, following backslash line continuations.
+  // Directives are matched on the stripped lines; the signature keeps the original text.
+  private parseCppMacros(strippedLines: string[], lines: string[], filePath: string): Symbol[] {
+    const symbols: Symbol[] = [];
+
+    for (let i = 0; i < strippedLines.length; i++) {
+      const match = strippedLines[i].match(this.cppDefinePattern);
+      if (!match) continue;
+
+      const startLine = i;
+      const definitionLines = [lines[i].replace(/\r$/, '')];
+      while (/\\\s*$/.test(definitionLines[definitionLines.length - 1]) && i + 1 < lines.length) {
+        i++;
+        definitionLines.push(lines[i].replace(/\r$/, ''));
+      }
+
+      symbols.push({
+        name: match[2],
+        kind: 'macro',
+        filePath,
+        line: startLine + 1,
+        column: match[1].length + 1,
+        endLine: i + 1,
+        endColumn: definitionLines[definitionLines.length - 1].length + 1,
+        signature: definitionLines.map(l => l.trim()).join('\n'),
+      });
+    }
+
+    return symbols;
+  }
+
+  private parsePythonSymbols(content: string, stripped: string, lines: string[], filePath: string): Symbol[] {
+    const symbols: Symbol[] = [];
+    const strippedLines = stripped.split('\n');
+    const logicalLines = this.pythonLogicalLines(strippedLines, lines);
+
+    // Open class/def blocks, innermost last
+    const scopes: Array<{ indent: number; symbol: Symbol }> = [];
+    let pendingDecorators: string[] = [];
+    let lastCodeLine = 0;
+
+    const closeScopes = (indent: number) => {
+      while (scopes.length > 0 && scopes[scopes.length - 1].indent >= indent) {
+        scopes.pop()!.symbol.endLine = lastCodeLine;
+      }
+    };
+
+    for (const logical of logicalLines) {
+      const indent = logical.text.match(/^\s*/)![0].replace(/\t/g, '        ').length;
+      closeScopes(indent);
+
+      const parent = scopes.length > 0 ? scopes[scopes.length - 1].symbol : undefined;
+      const container = parent ? parent.qualifiedName : undefined;
+      lastCodeLine = logical.endLine;
+
+      const decorator = /^\s*@/.test(logical.text) ? logical.raw.match(this.pythonDecoratorPattern) : null;
+      if (decorator) {
+        pendingDecorators.push(decorator[1]);
+        continue;
+      }
+
+      const fn = logical.text.match(this.pythonFunctionPattern);
+      const cls = fn ? null : logical.text.match(this.pythonClassPattern);
+      if (fn || cls) {
+        const name = (fn || cls)![2];
+        const symbol: Symbol = {
+          name,
+          kind: cls ? 'class' : parent?.kind === 'class' ? 'method' : 'function',
+          filePath,
+          line: logical.startLine,
+          column: (fn || cls)![1].length + 1,
+          endLine: logical.endLine,
+          signature: logical.raw.trim().replace(/\s+/g, ' ').replace(/:$/, ''),
+          qualifiedName: container ? `${container}.${name}` : name,
+          container,
+          isDefinition: true,
+        };
+        if (pendingDecorators.length > 0) {
+          symbol.decorators = pendingDecorators;
+        }
+        if (cls && cls[3] !== undefined) {
+          // Keyword arguments such as metaclass=... are not base classes
+          const bases = cls[3].split(',').map(b => b.trim()).filter(b => b && !b.includes('='));
+          if (bases.length > 0) symbol.bases = bases;
+        }
+
+        symbols.push(symbol);
+        scopes.push({ indent, symbol });
+        pendingDecorators = [];
+        continue;
+      }
+      pendingDecorators = [];
+
+      symbols.push(...this.parsePythonImport(logical, strippedLines, filePath, container));
+    }
+    closeScopes(0);
+
+    // Parse module-level assignments
+    symbols.push(...this.parsePythonVariables(strippedLines, lines, filePath));
+
+    return symbols;
+  }
+
+  // Physical lines joined across open brackets and backslash continuations.
+  // `text` is the stripped code, `raw` the original source of the same lines.
+  private pythonLogicalLines(
+    strippedLines: string[],
+    lines: string[]
+  ): Array<{ startLine: number; endLine: number; text: string; raw: string }> {
+    const logicalLines: Array<{ startLine: number; endLine: number; text: string; raw: string }> = [];
+    let current: { startLine: number; endLine: number; text: string; raw: string } | null = null;
+    let bracketDepth = 0;
+
+    for (let i = 0; i < strippedLines.length; i++) {
+      const text = strippedLines[i].replace(/\r$/, '');
+      const raw = (lines[i] || '').replace(/\r$/, '');
+
+      if (current) {
+        current.text += ' ' + text.trim();
+        current.raw += ' ' + raw.trim();
+        current.endLine = i + 1;
+      } else {
+        if (text.trim() === '') continue;
+        current = { startLine: i + 1, endLine: i + 1, text, raw };
+      }
+
+      for (const ch of text) {
+        if ('([{'.includes(ch)) bracketDepth++;
+        else if (')]}'.includes(ch)) bracketDepth = Math.max(0, bracketDepth - 1);
+      }
+
+      if (bracketDepth === 0 && !/\\\s*$/.test(text)) {
+        current.text = current.text.replace(/\\\s*/g, ' ');
+        logicalLines.push(current);
+        current = null;
+      }
+    }
+    if (current) logicalLines.push(current);
+
+    return logicalLines;
+  }
+
+  // import / from ... import statements; each bound name becomes an 'import' symbol
+  private parsePythonImport(
+    logical: { startLine: number; endLine: number; text: string; raw: string },
+    strippedLines: string[],
+    filePath: string,
+    container: string | undefined
+  ): Symbol[] {
+    const symbols: Symbol[] = [];
+    const signature = logical.raw.trim().replace(/\s+/g, ' ');
+
+    // Position of a bound name, which may sit on a continuation line
+    const locate = (name: string): { line: number; column: number } => {
+      const pattern = new RegExp(`\\b${name.replace(/\./g, '\\.')}\\b`, 'g');
+      for (let i = logical.startLine - 1; i < logical.endLine; i++) {
+        const text = strippedLines[i] || '';
+        pattern.lastIndex = i === logical.startLine - 1 ? text.indexOf('import') + 'import'.length : 0;
+        let m;
+        let last: number | null = null;
+        while ((m = pattern.exec(text)) !== null) last = m.index;
+        if (last !== null) return { line: i + 1, column: last + 1 };
+      }
+      return { line: logical.startLine, column: 1 };
+    };
+
+    const addImport = (name: string, importModule: string, importName?: string) => {
+      const position = locate(name);
       symbols.push({
-        name: className,
-        kind: 'class',
+        name,
+        kind: 'import',
         filePath,
         line: position.line,
         column: position.column,
+        signature,
+        qualifiedName: container ? `${container}.${name}` : name,
+        container,
+        isDefinition: false,
+        importModule,
+        importName,
       });
+    };
+
+    const fromImport = logical.text.match(this.pythonFromImportPattern);
+    if (fromImport) {
+      const names = fromImport[3].replace(/[()]/g, ' ');
+      for (const item of names.split(',')) {
+        const m = item.trim().match(/^(\w+)(?:\s+as\s+(\w+))?$/);
+        if (m) addImport(m[2] || m[1], fromImport[2], m[1]);
+      }
+      return symbols;
+    }
+
+    const plainImport = logical.text.match(this.pythonImportPattern);
+    if (plainImport) {
+      for (const item of plainImport[2].split(',')) {
+        const m = item.trim().match(/^([\w.]+)(?:\s+as\s+(\w+))?$/);
+        if (m) addImport(m[2] || m[1], m[1]);
+      }
+    }
+
+    return symbols;
+  }
+
+  // Module-level "NAME = value" / "NAME: type = value" / "a, b = ..." assignments.
+  // Works on stripped lines, so docstrings and strings never look like assignments.
+  private parsePythonVariables(strippedLines: string[], lines: string[], filePath: string): Symbol[] {
+    const symbols: Symbol[] = [];
+    const seen = new Set<string>();
+    let bracketDepth = 0;
+
+    for (let i = 0; i < strippedLines.length; i++) {
+      const line = strippedLines[i];
+
+      if (bracketDepth === 0 && /^[A-Za-z_]/.test(line)) {
+        const m = line.match(/^([A-Za-z_]\w*(?:\s*,\s*[A-Za-z_]\w*)*)\s*(?::[^=]+)?=(?!=)/);
+        if (m && !PYTHON_KEYWORDS.has(m[1])) {
+          let offset = 0;
+          for (const name of m[1].split(',').map(n => n.trim())) {
+            offset = line.indexOf(name, offset);
+            // Later reassignments in the same module are not new definitions
+            if (!seen.has(name)) {
+              seen.add(name);
+              symbols.push({
+                name,
+                kind: 'variable',
+                filePath,
+                line: i + 1,
+                column: offset + 1,
+                signature: lines[i].trim(),
+                qualifiedName: name,
+                isDefinition: true,
+              });
+            }
+            offset += name.length;
+          }
+        }
+      }
+
+      // Track brackets that continue the statement onto the next line
+      for (const ch of line) {
+        if ('([{'.includes(ch)) {
+          bracketDepth++;
+        } else if (')]}'.includes(ch)) {
+          bracketDepth = Math.max(0, bracketDepth - 1);
+        }
+      }
     }
 
     return symbols;
   }
 
   private getLineAndColumn(content: string, index: number, lines: string[]): { line: number; column: number } {
-    const beforeMatch = content.substring(0, index);
-    const line = beforeMatch.split('\n').length;
-    const lastNewline = beforeMatch.lastIndexOf('\n');
-    const column = index - lastNewline;
-    
-    return { line, column };
+    // Line start offsets are computed once per file and cached on its lines array
+    if (!this.lineStartsCache || this.lineStartsCache.lines !== lines) {
+      const starts: number[] = [];
+      let offset = 0;
+      for (const l of lines) {
+        starts.push(offset);
+        offset += l.length + 1;
+      }
+      this.lineStartsCache = { lines, starts };
+    }
+
+    const starts = this.lineStartsCache.starts;
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= index) lo = mid;
+      else hi = mid - 1;
+    }
+
+    return { line: lo + 1, column: index - starts[lo] + 1 };
   }
 
   async indexDirectory(dirPath: string): Promise<void> {
     const files = await this.getAllSourceFiles(dirPath);
-    
-    for (const file of files) {
-      const ext = path.extname(file).toLowerCase();
-      let language = 'plaintext';
-      
-      if (['.c', '.h'].includes(ext)) language = 'c';
-      else if (['.cpp', '.cc', '.cxx', '.hpp'].includes(ext)) language = 'cpp';
-      else if (ext === '.py') language = 'python';
-      
-      if (language !== 'plaintext') {
-        await this.parseFile(file, language);
-      }
-    }
+    this.currentProjectPath = dirPath;
+    this.projectFiles = files;
+    this.includeResolutionCache.clear();
+
+    await this.parseFiles(files);
+    this.resolveIncludes();
   }
 
   private async getAllSourceFiles(dirPath: string): Promise<string[]> {
@@ -174,123 +1203,663 @@ export class SymbolParser {
 
     for (const entry of entries) {
       const fullPath = path.join(dirPath, entry.name);
-      
-      if (entry.name.startsWith('.') || 
-          entry.name === 'node_modules' || 
-          entry.name === '__pycache__') {
+
+      // Same rule as the file tree and the project watcher
+      if (isIgnoredEntry(entry.name)) {
         continue;
       }
 
       if (entry.isDirectory()) {
         files.push(...await this.getAllSourceFiles(fullPath));
-      } else {
-        const ext = path.extname(entry.name).toLowerCase();
-        if (['.c', '.cpp', '.cc', '.cxx', '.h', '.hpp', '.py'].includes(ext)) {
-          files.push(fullPath);
-        }
+      } else if (isSupportedFile(fullPath)) {
+        files.push(fullPath);
       }
     }
 
     return files;
   }
 
-  // Build symbol database with progress tracking
-  async buildSymbolDatabase(dirPath: string, mainWindow: BrowserWindow | null): Promise<void> {
+  // Build symbol database with progress tracking. Files whose size/mtime or content hash
+  // match the previous build keep their stored rows; only added or changed files are parsed.
+  // fullRebuild parses every file again (e.g. after switching parser backends).
+  // onProgress receives each phase, for the window's progress dialog or the CLI.
+  async buildSymbolDatabase(
+    dirPath: string,
+    onProgress?: (progress: BuildProgress) => void,
+    fullRebuild = false
+  ): Promise<BuildSummary> {
     this.currentProjectPath = dirPath;
     this.clearIndex();
 
     // Phase 1: Scanning files
-    mainWindow?.webContents.send('build-progress', {
+    onProgress?.({
       phase: 'scanning',
       current: 0,
       total: 0,
-    } as BuildProgress);
+    });
 
     const files = await this.getAllSourceFiles(dirPath);
-    const totalFiles = files.length;
+    this.projectFiles = files;
+    this.includeResolutionCache.clear();
 
-    // Phase 2: Parsing files
-    const allSymbols: Symbol[] = [];
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      const ext = path.extname(file).toLowerCase();
-      let language = 'plaintext';
-      
-      if (['.c', '.h'].includes(ext)) language = 'c';
-      else if (['.cpp', '.cc', '.cxx', '.hpp'].includes(ext)) language = 'cpp';
-      else if (ext === '.py') language = 'python';
-      
-      if (language !== 'plaintext') {
-        mainWindow?.webContents.send('build-progress', {
-          phase: 'parsing',
-          current: i + 1,
-          total: totalFiles,
-          currentFile: path.basename(file),
-        } as BuildProgress);
-
-        const symbols = await this.parseFile(file, language);
-        allSymbols.push(...symbols);
-      }
+    try {
+      await this.database.open(dirPath, fullRebuild);
+    } catch (err) {
+      // A damaged or incompatible database is replaced by a new one
+      if (!(err instanceof DatabaseOpenError)) throw err;
+      await this.database.open(dirPath, true);
     }
+    // Rows from another parser version or backend would mix with new ones, so everything is parsed
+    const info = this.database.getBuildInfo();
+    const reparseAll = info.parserVersion !== PARSER_VERSION || info.parserBackend !== this.parserBackend;
+    const previous = reparseAll ? new Map<string, FileRecord>() : this.database.getFileRecords(dirPath);
+    const { changed, records } = await this.detectChanges(files, previous);
+    const current = new Set(files);
+    const removed = Array.from(previous.keys()).filter(filePath => !current.has(filePath));
+    const skipped = files.length - changed.length;
+
+    // Phase 2: Parsing added/changed files on worker threads; progress counts finished files
+    onProgress?.({
+      phase: 'parsing',
+      current: 0,
+      total: changed.length,
+      skipped,
+    });
+
+    const allSymbols = await this.parseFiles(changed, (completed, total, file) => {
+      onProgress?.({
+        phase: 'parsing',
+        current: completed,
+        total,
+        currentFile: path.basename(file),
+        skipped,
+      });
+    });
 
     // Phase 3: Saving to database
-    mainWindow?.webContents.send('build-progress', {
+    onProgress?.({
       phase: 'saving',
       current: 0,
       total: allSymbols.length,
-    } as BuildProgress);
+      skipped,
+    });
 
     const filtered = this.filterAndDeduplicateSymbols(allSymbols);
 
-    // Persist filtered symbols to database
-    await this.database.open(dirPath);
+    // Replace the rows of changed and deleted files. A database without file
+    // records predates incremental builds, so everything in it is replaced.
+    // The database stays open afterwards to answer reference queries.
+    const allReferences: SymbolReference[] = [];
+    this.referenceIndex.forEach(refs => allReferences.push(...refs));
+
+    if (previous.size === 0) {
+      this.database.clearProject(dirPath);
+    } else {
+      this.database.removeFiles([...changed, ...removed], dirPath);
+    }
+    this.database.saveReferences(allReferences, dirPath);
+    this.database.saveCalls(this.callIndex, dirPath);
+    this.database.saveIncludes(this.includeIndex, dirPath);
+    // Added or deleted headers can change what unchanged files' #includes resolve to
+    this.database.updateIncludeResolution(dirPath, include =>
+      this.resolveInclude(include.header, include.filePath, include.isSystem) || undefined
+    );
+    this.database.saveFileRecords(records, dirPath);
+    this.database.saveBuildInfo({ parserVersion: PARSER_VERSION, parserBackend: this.parserBackend, builtAt: Date.now() });
     this.database.saveSymbols(filtered, dirPath);
-    this.database.close();
+    this.referenceIndex.clear();
+    this.callIndex = [];
+    this.includeIndex = [];
+
+    // And also update in-memory index to every stored symbol, unchanged files included
+    this.setIndexFromDatabase(this.database.loadSymbols(dirPath));
+    const totalSymbols = Object.values(this.symbolIndex).reduce((sum, symbols) => sum + symbols.length, 0);
+
+    // Phase 4: Complete
+    onProgress?.({
+      phase: 'complete',
+      current: totalSymbols,
+      total: totalSymbols,
+      skipped,
+    });
+
+    return {
+      parsedFiles: changed.length,
+      skippedFiles: skipped,
+      removedFiles: removed.length,
+      totalSymbols,
+    };
+  }
+
+  // Bring the index (and the database, when one is open) up to date with paths reported
+  // by the file watcher. Paths may be files or directories, existing or deleted.
+  async applyFileChanges(paths: string[]): Promise<FileChanges> {
+    const dirPath = this.currentProjectPath;
+    const known = new Set(this.projectFiles);
+    const changed = new Set<string>();
+    const removed = new Set<string>();
+    let treeChanged = false;
+
+    for (const changedPath of paths) {
+      let stats: fs.Stats | null = null;
+      try {
+        stats = await fs.promises.stat(changedPath);
+      } catch {
+        stats = null;
+      }
+
+      if (!stats) {
+        // A deleted file, or a deleted directory with everything indexed under it
+        treeChanged = true;
+        const prefix = changedPath + path.sep;
+        this.projectFiles
+          .filter(f => f === changedPath || f.startsWith(prefix))
+          .forEach(f => removed.add(f));
+      } else if (stats.isDirectory()) {
+        treeChanged = true;
+        (await this.getAllSourceFiles(changedPath)).forEach(f => changed.add(f));
+      } else if (isSupportedFile(changedPath)) {
+        changed.add(changedPath);
+      }
+    }
+
+    const added = Array.from(changed).filter(f => !known.has(f));
+    if (added.length > 0 || removed.size > 0) {
+      treeChanged = true;
+      this.projectFiles = this.projectFiles.filter(f => !removed.has(f)).concat(added);
+      this.includeResolutionCache.clear();
+    }
+
+    const touched = new Set([...changed, ...removed]);
+    if (touched.size === 0) {
+      return { changed: [], added: [], removed: [], treeChanged };
+    }
+
+    let reparsed = Array.from(changed);
+    if (this.database.isOpen()) {
+      // Saves that left the content as built (a touch, an editor writing the same text)
+      // keep their stored rows, and a batch with nothing else leaves the database alone
+      const stored = this.database.getFileRecords(dirPath);
+      const detected = await this.detectChanges(Array.from(changed), stored);
+      const modified = new Set(detected.changed);
+      if (modified.size === 0 && removed.size === 0) {
+        return { changed: [], added: [], removed: [], treeChanged };
+      }
+      const records = detected.records.filter(record => modified.has(record.filePath));
+
+      // Same steps as an incremental build, limited to the modified files
+      this.referenceIndex.clear();
+      this.callIndex = [];
+      this.includeIndex = [];
+
+      const allSymbols = await this.parseFiles(Array.from(modified));
+      const filtered = this.filterAndDeduplicateSymbols(allSymbols);
+      const allReferences: SymbolReference[] = [];
+      this.referenceIndex.forEach(refs => allReferences.push(...refs));
+
+      this.database.removeFiles([...modified, ...removed], dirPath);
+      this.database.saveReferences(allReferences, dirPath);
+      this.database.saveCalls(this.callIndex, dirPath);
+      this.database.saveIncludes(this.includeIndex, dirPath);
+      this.database.updateIncludeResolution(dirPath, include =>
+        this.resolveInclude(include.header, include.filePath, include.isSystem) || undefined
+      );
+      this.database.saveFileRecords(records, dirPath);
+      this.database.saveSymbols(filtered, dirPath, true);
+      this.referenceIndex.clear();
+      this.callIndex = [];
+      this.includeIndex = [];
+
+      this.setIndexFromDatabase(this.database.loadSymbols(dirPath));
+      reparsed = Array.from(modified);
+    } else {
+      // Quick index: drop everything recorded for the touched files, then parse again
+      this.fileSymbolIndex = null;
+      for (const name of Object.keys(this.symbolIndex)) {
+        const kept = this.symbolIndex[name].filter(s => !touched.has(s.filePath));
+        if (kept.length > 0) {
+          this.symbolIndex[name] = kept;
+        } else {
+          delete this.symbolIndex[name];
+        }
+      }
+      this.referenceIndex.forEach((refs, name) => {
+        const kept = refs.filter(ref => !touched.has(ref.filePath));
+        if (kept.length > 0) {
+          this.referenceIndex.set(name, kept);
+        } else {
+          this.referenceIndex.delete(name);
+        }
+      });
+      this.callIndex = this.callIndex.filter(call => !touched.has(call.filePath));
+      this.includeIndex = this.includeIndex.filter(include => !touched.has(include.filePath));
+
+      await this.parseFiles(reparsed);
+      this.resolveIncludes();
+    }
+
+    return { changed: reparsed, added, removed: Array.from(removed), treeChanged };
+  }
+
+  // Compare files on disk with the previous build: same size and mtime, or the same
+  // content hash after a touch/checkout, counts as unchanged
+  private async detectChanges(
+    files: string[],
+    previous: Map<string, FileRecord>
+  ): Promise<{ changed: string[]; records: FileRecord[] }> {
+    const changed: string[] = [];
+    const records: FileRecord[] = [];
 
-    // And also update in-memory index to the same filtered set
+    for (const filePath of files) {
+      const stats = await fs.promises.stat(filePath);
+      const record = previous.get(filePath);
+      if (record && record.size === stats.size && record.mtime === stats.mtimeMs) {
+        records.push(record);
+        continue;
+      }
+
+      const content = await fs.promises.readFile(filePath);
+      const hash = crypto.createHash('sha1').update(content).digest('hex');
+      records.push({ filePath, size: stats.size, mtime: stats.mtimeMs, hash });
+      if (!record || record.hash !== hash) {
+        changed.push(filePath);
+      }
+    }
+
+    return { changed, records };
+  }
+
+  private setIndexFromDatabase(symbolMap: Map<string, Symbol[]>): void {
     this.symbolIndex = {};
-    filtered.forEach(symbol => {
-      if (!this.symbolIndex[symbol.name]) {
-        this.symbolIndex[symbol.name] = [];
+    this.fileSymbolIndex = null;
+    symbolMap.forEach((symbols: Symbol[], name: string) => {
+      const filtered = this.filterAndDeduplicateSymbols(symbols);
+      filtered.forEach(symbol => this.updateActive(symbol));
+      if (filtered.length > 0) {
+        this.symbolIndex[name] = filtered;
       }
-      this.symbolIndex[symbol.name].push(symbol);
     });
+  }
 
-    // Phase 4: Complete
-    mainWindow?.webContents.send('build-progress', {
-      phase: 'complete',
-      current: allSymbols.length,
-      total: allSymbols.length,
-    } as BuildProgress);
+  hasSymbolDatabase(dirPath: string): boolean {
+    return this.database.exists(dirPath);
   }
 
-  // Load symbol database if exists
+  // Store symbols read from ctags/cscope files in place of the parsed symbols of the files
+  // they cover. Without a database yet, the quick index is saved first so references,
+  // calls and includes keep working. Returns the number of symbols stored.
+  async importSymbols(dirPath: string, symbols: Symbol[]): Promise<number> {
+    const imported = this.filterAndDeduplicateSymbols(symbols);
+
+    if (!this.database.isOpen()) {
+      // Replaces a database the user chose not to rebuild, if any
+      await this.database.open(dirPath, true);
+      // Records of the files in the quick index, so the next build parses only what changed
+      // instead of starting over (which would drop the imported symbols)
+      const { records } = await this.detectChanges(this.projectFiles, new Map());
+      const allReferences: SymbolReference[] = [];
+      this.referenceIndex.forEach(refs => allReferences.push(...refs));
+
+      this.database.clearProject(dirPath);
+      this.database.saveReferences(allReferences, dirPath);
+      this.database.saveCalls(this.callIndex, dirPath);
+      this.database.saveIncludes(this.includeIndex, dirPath);
+      this.database.saveFileRecords(records, dirPath);
+      this.database.saveBuildInfo({ parserVersion: PARSER_VERSION, parserBackend: this.parserBackend, builtAt: Date.now() });
+      this.database.saveSymbols(Object.values(this.symbolIndex).flat(), dirPath);
+      this.referenceIndex.clear();
+      this.callIndex = [];
+      this.includeIndex = [];
+    }
+
+    const covered = Array.from(new Set(imported.map(symbol => symbol.filePath)));
+    this.database.removeSymbols(covered, dirPath);
+    this.database.saveSymbols(imported, dirPath);
+
+    this.setIndexFromDatabase(this.database.loadSymbols(dirPath));
+    return imported.length;
+  }
+
+  // Load symbol database if exists. Throws DatabaseOpenError when it is damaged, from an
+  // incompatible release, or built by another parser version; it then needs a rebuild.
   async loadSymbolDatabase(dirPath: string): Promise<boolean> {
     if (this.database.exists(dirPath)) {
       this.currentProjectPath = dirPath;
-      const symbolMap = await this.database.load(dirPath);
-      
+      this.projectFiles = await this.getAllSourceFiles(dirPath);
+      this.includeResolutionCache.clear();
+      await this.database.open(dirPath);
+
+      // A database from before parser versions were recorded has just been brought up to
+      // the current schema by its migrations and stays usable; the next build reparses it
+      const { parserVersion } = this.database.getBuildInfo();
+      if (parserVersion !== undefined && parserVersion !== PARSER_VERSION) {
+        this.database.close();
+        throw new DatabaseOpenError(
+          `The symbol database was built by parser version ${parserVersion}; this release uses ${PARSER_VERSION}`,
+          'incompatible'
+        );
+      }
+
       // Convert Map to SymbolIndex
-      this.symbolIndex = {};
-      symbolMap.forEach((symbols: Symbol[], name: string) => {
-        const filtered = this.filterAndDeduplicateSymbols(symbols);
-        if (filtered.length > 0) {
-          this.symbolIndex[name] = filtered;
-        }
-      });
+      this.setIndexFromDatabase(this.database.loadSymbols(dirPath));
       
-      this.database.close();
+      // Keep the database open for reference queries
       return true;
     }
     return false;
   }
 
-  findDefinition(symbolName: string): Symbol[] {
-    return this.symbolIndex[symbolName] || [];
+  // Definitions come before declarations (e.g. extern variables). With a cursor
+  // context, matches in the explicit qualifier or the enclosing class/namespace rank first.
+  // Among alternatives under #ifdef, the ones compiled under the loaded CFLAGS come first.
+  findDefinition(symbolName: string, context?: Omit<DefinitionRequest, 'symbolName'>): Symbol[] {
+    return this.rankDefinitions(symbolName, context);
+  }
+
+  // findDefinition with the scopes around context.line when the caller already knows them
+  private rankDefinitions(symbolName: string, context?: Omit<DefinitionRequest, 'symbolName'>, scopes?: string[]): Symbol[] {
+    const viaImport = context ? this.resolveThroughPythonImport(symbolName, context) : [];
+    if (viaImport.length > 0) {
+      return viaImport;
+    }
+    return this.rankSymbols(this.symbolIndex[symbolName] || [], context, false, scopes);
+  }
+
+  // Python: follow "module.func", "from m import func" and "import m as alias"
+  // in the current file to the module file inside the project
+  private resolveThroughPythonImport(symbolName: string, context: Omit<DefinitionRequest, 'symbolName'>): Symbol[] {
+    const fromFile = context.currentFilePath;
+    if (path.extname(fromFile).toLowerCase() !== '.py') return [];
+
+    const importsNamed = (name: string) => (this.symbolIndex[name] || [])
+      .filter(s => s.kind === 'import' && s.filePath === fromFile);
+    const moduleOf = (binding: Symbol) => binding.importName
+      ? `${binding.importModule}${binding.importModule!.endsWith('.') ? '' : '.'}${binding.importName}`
+      : binding.importModule!;
+
+    let moduleName: string | null = null;
+    let targetName = symbolName;
+
+    if (context.qualifier) {
+      // Longest bound prefix of the qualifier: "pkg.util" for "pkg.util.x", else "pkg"
+      const parts = context.qualifier.split('.');
+      for (let n = parts.length; n > 0 && moduleName === null; n--) {
+        const binding = importsNamed(parts.slice(0, n).join('.'))[0];
+        if (binding) {
+          moduleName = [moduleOf(binding), ...parts.slice(n)].join('.').replace(/\.\.+$/, '.');
+        }
+      }
+    } else {
+      const binding = importsNamed(symbolName)[0];
+      if (binding) {
+        if (binding.importName) {
+          // from m import name [as alias]: look for name in m, or m.name as a submodule
+          const moduleFile = this.resolvePythonModule(binding.importModule!, fromFile);
+          const found = moduleFile ? this.moduleLevelSymbols(binding.importName, moduleFile) : [];
+          if (found.length > 0) return found;
+        }
+        moduleName = moduleOf(binding);
+        targetName = '';
+      }
+    }
+
+    if (moduleName === null) return [];
+    const moduleFile = this.resolvePythonModule(moduleName, fromFile);
+    if (!moduleFile) return [];
+
+    if (!targetName) {
+      // The name is the module itself
+      return [{
+        name: symbolName,
+        kind: 'import',
+        filePath: moduleFile,
+        line: 1,
+        column: 1,
+        signature: `module ${moduleName}`,
+      }];
+    }
+    return this.moduleLevelSymbols(targetName, moduleFile);
+  }
+
+  // Symbols named `name` in a module file, module-level ones first
+  private moduleLevelSymbols(name: string, moduleFile: string): Symbol[] {
+    return (this.symbolIndex[name] || [])
+      .filter(s => s.filePath === moduleFile)
+      .sort((a, b) => Number(a.container !== undefined) - Number(b.container !== undefined));
+  }
+
+  // Map a (possibly relative) dotted module name onto a .py file or package __init__.py
+  private resolvePythonModule(moduleName: string, fromFile: string): string | null {
+    const leadingDots = moduleName.match(/^\.*/)![0].length;
+    const parts = moduleName.substring(leadingDots).split('.').filter(Boolean);
+    const relative = path.join(...(parts.length > 0 ? parts : ['__init__']));
+    const candidatesUnder = (dir: string) => parts.length > 0
+      ? [path.join(dir, `${relative}.py`), path.join(dir, relative, '__init__.py')]
+      : [path.join(dir, '__init__.py')];
+
+    if (leadingDots > 0) {
+      let baseDir = path.dirname(fromFile);
+      for (let i = 1; i < leadingDots; i++) baseDir = path.dirname(baseDir);
+      return candidatesUnder(baseDir).find(c => fs.existsSync(c)) || null;
+    }
+
+    // Absolute import: the project root, the importing file's directory, then any
+    // indexed file whose path ends with the module path (for src/ style layouts)
+    const roots = [this.currentProjectPath, path.dirname(fromFile)].filter(Boolean);
+    for (const root of roots) {
+      const found = candidatesUnder(root).find(c => fs.existsSync(c));
+      if (found) return found;
+    }
+
+    const suffixes = candidatesUnder('').map(c => path.sep + c);
+    for (const filePath of this.getFileSymbolIndex().keys()) {
+      if (suffixes.some(suffix => filePath.endsWith(suffix))) return filePath;
+    }
+    return null;
+  }
+
+  // Declarations (prototypes, extern variables) come first; symbols without a
+  // separate declaration fall back to their definitions
+  findDeclaration(symbolName: string, context?: Omit<DefinitionRequest, 'symbolName'>): Symbol[] {
+    return this.rankSymbols(this.symbolIndex[symbolName] || [], context, true);
+  }
+
+  private rankSymbols(
+    symbols: Symbol[],
+    context: Omit<DefinitionRequest, 'symbolName'> | undefined,
+    preferDeclarations: boolean,
+    scopes: string[] = context?.line !== undefined ? this.enclosingScopes(context.currentFilePath, context.line) : []
+  ): Symbol[] {
+    const qualifier = context?.qualifier;
+
+    const score = (s: Symbol): number => {
+      let value = 0;
+      if (qualifier && s.container &&
+          (s.container === qualifier || s.container.endsWith(`::${qualifier}`) ||
+           s.container.endsWith(`.${qualifier}`))) {
+        value += 1000;
+      }
+      const scopeIndex = s.container ? scopes.indexOf(s.container) : -1;
+      if (scopeIndex !== -1) {
+        value += 100 - scopeIndex;
+      }
+      if (s.active !== false) {
+        value += 50;
+      }
+      if ((s.isDefinition === false) === preferDeclarations) {
+        value += 10;
+      }
+      if (context && s.filePath === context.currentFilePath) {
+        value += 1;
+      }
+      return value;
+    };
+
+    return symbols
+      .map(s => ({ s, value: score(s) }))
+      .sort((a, b) => b.value - a.value)
+      .map(entry => entry.s);
+  }
+
+  private getFileSymbolIndex(): Map<string, Symbol[]> {
+    if (!this.fileSymbolIndex) {
+      this.fileSymbolIndex = new Map();
+      for (const symbols of Object.values(this.symbolIndex)) {
+        for (const symbol of symbols) {
+          const inFile = this.fileSymbolIndex.get(symbol.filePath);
+          if (inFile) {
+            inFile.push(symbol);
+          } else {
+            this.fileSymbolIndex.set(symbol.filePath, [symbol]);
+          }
+        }
+      }
+    }
+    return this.fileSymbolIndex;
+  }
+
+  private symbolsInFile(filePath: string): Symbol[] {
+    return this.getFileSymbolIndex().get(filePath) ?? [];
+  }
+
+  // Classes/namespaces around a line, innermost first (e.g. ns::Foo, ns or Foo.method, Foo)
+  private enclosingScopes(filePath: string, line: number): string[] {
+    const scopes: string[] = [];
+
+    for (const s of this.symbolsInFile(filePath)) {
+      if (s.endLine === undefined) continue;
+      if (line < s.line || line > s.endLine) continue;
+
+      if (s.kind === 'function' || s.kind === 'method' ||
+          s.kind === 'class' || s.kind === 'struct' || s.kind === 'union') {
+        scopes.push(s.qualifiedName || s.name);
+      }
+    }
+
+    // Expand a::b::C into a::b::C, a::b, a (and A.b into A.b, A for Python)
+    const expanded = new Set<string>();
+    for (let scope of scopes) {
+      while (scope) {
+        expanded.add(scope);
+        const cut = Math.max(scope.lastIndexOf('::'), scope.lastIndexOf('.'));
+        scope = cut > 0 ? scope.substring(0, cut) : '';
+      }
+    }
+
+    return Array.from(expanded).sort((a, b) => b.length - a.length);
+  }
+
+  // Identifier occurrences, from the database when one is loaded, otherwise from the quick index
+  findReferences(symbolName: string): SymbolReference[] {
+    if (this.database.isOpen()) {
+      return this.database.findReferences(symbolName);
+    }
+    const refs = this.referenceIndex.get(symbolName) || [];
+    return [...refs].sort((a, b) =>
+      a.filePath.localeCompare(b.filePath) || a.line - b.line || a.column - b.column
+    );
+  }
+
+  // Call sites inside `name` (outgoing) or calling `name` (incoming)
+  private findCalls(direction: 'outgoing' | 'incoming', name: string): CallSite[] {
+    const column = direction === 'outgoing' ? 'caller' : 'callee';
+    if (this.database.isOpen()) {
+      return this.database.findCalls(column, name);
+    }
+    return this.callIndex.filter(call => call[column] === name);
+  }
+
+  // The function under the cursor as the root of a call hierarchy
+  prepareCallHierarchy(request: DefinitionRequest): CallHierarchyItem | null {
+    const { symbolName, ...context } = request;
+    const target = this.findDefinition(symbolName, context)
+      .find(s => s.kind === 'function' || s.kind === 'method' || s.kind === 'macro');
+    if (!target) return null;
+
+    return {
+      name: target.name,
+      qualifiedName: target.qualifiedName,
+      kind: target.kind,
+      filePath: target.filePath,
+      line: target.line,
+      column: target.column,
+      callSites: [],
+    };
+  }
+
+  // Functions calling item.name, one node per calling function with its call sites
+  getIncomingCalls(item: CallHierarchyItem): CallHierarchyItem[] {
+    const groups = new Map<string, CallHierarchyItem>();
+
+    for (const call of this.findCalls('incoming', item.name)) {
+      // The calling function is the definition in that file whose body contains the call
+      const callerSymbol = (this.symbolIndex[call.caller] || []).find(s =>
+        s.filePath === call.filePath && s.endLine !== undefined &&
+        s.line <= call.line && call.line <= s.endLine &&
+        (s.qualifiedName || s.name) === (call.callerQualifiedName || call.caller)
+      );
+      const key = `${call.filePath}|${callerSymbol ? callerSymbol.line : call.callerQualifiedName || call.caller}`;
+
+      if (!groups.has(key)) {
+        groups.set(key, {
+          name: call.caller,
+          qualifiedName: call.callerQualifiedName,
+          kind: callerSymbol?.kind,
+          filePath: call.filePath,
+          line: callerSymbol ? callerSymbol.line : call.line,
+          column: callerSymbol ? callerSymbol.column : call.column,
+          callSites: [],
+        });
+      }
+      groups.get(key)!.callSites.push({ name: item.name, filePath: call.filePath, line: call.line, column: call.column });
+    }
+
+    return Array.from(groups.values());
+  }
+
+  // Functions called from item, one node per callee with the call sites inside item
+  getOutgoingCalls(item: CallHierarchyItem): CallHierarchyItem[] {
+    const groups = new Map<string, CallHierarchyItem>();
+
+    // Only calls made from this definition, not from same-named functions elsewhere
+    const calls = this.findCalls('outgoing', item.name).filter(call =>
+      item.kind === undefined || (call.filePath === item.filePath &&
+      (item.qualifiedName === undefined || (call.callerQualifiedName || call.caller) === item.qualifiedName))
+    );
+
+    // Scopes around the calls, looked up once per calling function rather than per callee
+    const callerScopes = new Map<string, string[]>();
+    for (const call of calls) {
+      if (!groups.has(call.callee)) {
+        const caller = `${call.filePath}|${call.callerQualifiedName || call.caller}`;
+        if (!callerScopes.has(caller)) {
+          callerScopes.set(caller, this.enclosingScopes(call.filePath, call.line));
+        }
+        const context = { currentFilePath: call.filePath, line: call.line };
+        const target = this.rankDefinitions(call.callee, context, callerScopes.get(caller))[0];
+        groups.set(call.callee, {
+          name: call.callee,
+          qualifiedName: target?.qualifiedName,
+          kind: target?.kind,
+          filePath: target ? target.filePath : call.filePath,
+          line: target ? target.line : call.line,
+          column: target ? target.column : call.column,
+          callSites: [],
+        });
+      }
+      groups.get(call.callee)!.callSites.push({ name: call.callee, filePath: call.filePath, line: call.line, column: call.column });
+    }
+
+    return Array.from(groups.values());
   }
 
   clearIndex(): void {
     this.symbolIndex = {};
+    this.fileSymbolIndex = null;
+    this.referenceIndex.clear();
+    this.callIndex = [];
+    this.includeIndex = [];
+    this.database.close();
   }
 
   getIndex(): SymbolIndex {
@@ -298,24 +1867,20 @@ export class SymbolParser {
   }
 
   private filterAndDeduplicateSymbols(symbols: Symbol[]): Symbol[] {
-    const allowedKinds: Symbol['kind'][] = ['function', 'class', 'typedef', 'struct'];
-    const invalidNames = new Set([
-      'void', 'int', 'char', 'float', 'double', 'long', 'short', 'unsigned',
-      'signed', 'bool', 'size_t', 'u8', 'u16', 'u32', 's8', 's16', 's32',
-      'if', 'volatile', '__volatile__',
-      'BCMPOST_TRAP_RODATA', 'BCMPOST_TRAP_TEXT', 'BCMPOSTTRAPFN', 'BCMRAMFN'
-    ]);
-
+    const allowedKinds: Symbol['kind'][] = [
+      'function', 'method', 'class', 'typedef', 'struct', 'union', 'enum', 'enumerator', 'field', 'macro', 'variable',
+      'import',
+    ];
     const map = new Map<string, Symbol>();
 
     for (const s of symbols) {
       if (!allowedKinds.includes(s.kind)) continue;
-      if (invalidNames.has(s.name)) continue;
 
-      // typedef / class / struct 는 같은 (name, kind, filePath) 안에서는
+      // typedef / class / struct / union / enum 은 같은 (qualifiedName, kind, filePath) 안에서는
       // 선언 라인 하나만 남기고, 그중에서도 가장 앞에 나오는(가장 작은 line) 것만 유지한다.
-      if (s.kind === 'typedef' || s.kind === 'class' || s.kind === 'struct') {
-        const baseKey = `${s.name}|${s.kind}|${s.filePath}`;
+      if (s.kind === 'typedef' || s.kind === 'class' || s.kind === 'struct' ||
+          s.kind === 'union' || s.kind === 'enum') {
+        const baseKey = `${s.qualifiedName || s.name}|${s.kind}|${s.filePath}`;
         const existing = map.get(baseKey);
         if (!existing || s.line < existing.line) {
           map.set(baseKey, s);
@@ -323,6 +1888,17 @@ export class SymbolParser {
         continue;
       }
 
+      // 선언(extern 변수, 함수 프로토타입)은 (qualifiedName, kind, filePath) 당 하나만 유지한다.
+      // 헤더에서 #ifdef 분기마다 반복 선언되는 경우가 많다. 정의는 위치별로 모두 유지한다.
+      if (s.isDefinition === false) {
+        const declKey = `${s.qualifiedName || s.name}|${s.kind}|decl|${s.filePath}`;
+        const existing = map.get(declKey);
+        if (!existing || s.line < existing.line) {
+          map.set(declKey, s);
+        }
+        continue;
+      }
+
       const key = `${s.name}|${s.kind}|${s.filePath}|${s.line}|${s.column}`;
       if (!map.has(key)) {
         map.set(key, s);
@@ -0,0 +1,370 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getLanguageFromExtension } from './fileSystem';
+import type { Symbol } from '../shared/types';
+
+// What one ctags kind becomes; kinds missing from the tables (locals, parameters,
+// labels, headers, namespaces ...) are not imported
+interface KindMapping {
+  kind: Symbol['kind'];
+  isDefinition?: boolean;
+}
+
+// Universal Ctags kinds of C and C++, by letter and by long name
+const C_KINDS: Record<string, KindMapping> = {
+  c: { kind: 'class' }, class: { kind: 'class' },
+  d: { kind: 'macro' }, macro: { kind: 'macro' },
+  e: { kind: 'enumerator' }, enumerator: { kind: 'enumerator' },
+  f: { kind: 'function', isDefinition: true }, function: { kind: 'function', isDefinition: true },
+  g: { kind: 'enum' }, enum: { kind: 'enum' },
+  m: { kind: 'field' }, member: { kind: 'field' },
+  p: { kind: 'function', isDefinition: false }, prototype: { kind: 'function', isDefinition: false },
+  s: { kind: 'struct' }, struct: { kind: 'struct' },
+  t: { kind: 'typedef' }, typedef: { kind: 'typedef' },
+  u: { kind: 'union' }, union: { kind: 'union' },
+  v: { kind: 'variable', isDefinition: true }, variable: { kind: 'variable', isDefinition: true },
+  x: { kind: 'variable', isDefinition: false }, externvar: { kind: 'variable', isDefinition: false },
+};
+
+// Universal Ctags kinds of Python; modules, namespaces and unknowns are imported names
+const PYTHON_KINDS: Record<string, KindMapping> = {
+  c: { kind: 'class', isDefinition: true }, class: { kind: 'class', isDefinition: true },
+  f: { kind: 'function', isDefinition: true }, function: { kind: 'function', isDefinition: true },
+  m: { kind: 'method', isDefinition: true }, member: { kind: 'method', isDefinition: true },
+  v: { kind: 'variable', isDefinition: true }, variable: { kind: 'variable', isDefinition: true },
+  i: { kind: 'import', isDefinition: false }, module: { kind: 'import', isDefinition: false },
+  I: { kind: 'import', isDefinition: false }, namespace: { kind: 'import', isDefinition: false },
+  x: { kind: 'import', isDefinition: false }, unknown: { kind: 'import', isDefinition: false },
+};
+
+// Extension fields that name the enclosing scope ("class:Foo", "struct:ns::bar")
+const SCOPE_FIELDS = ['class', 'struct', 'union', 'enum', 'namespace', 'function', 'member'];
+
+// cscope marks of definitions; calls, includes, locals and parameters are not imported
+const CSCOPE_KINDS: Record<string, Symbol['kind']> = {
+  '$': 'function',
+  '#': 'macro',
+  'c': 'class',
+  'e': 'enum',
+  's': 'struct',
+  'u': 'union',
+  't': 'typedef',
+  'g': 'variable',
+};
+
+// cscope compresses common character pairs into one byte (0x80 and up) and C keywords
+// into bytes below ' '; tables from cscope's own decompression
+const DICHAR1 = ' teisaprnl(of)=c';
+const DICHAR2 = ' tnerpla';
+const CSCOPE_KEYWORDS = [
+  '', '#define ', '#include ', 'break', 'case ', 'char ', 'continue', 'default', 'double ', '\t', '\n',
+  'else ', 'enum ', 'extern ', 'float ', 'for(', 'goto ', 'if(', 'int ', 'long ', 'register ', 'return',
+  'short ', 'sizeof', 'static ', 'struct ', 'switch(', 'typedef ', 'union ', 'unsigned ', 'void ', 'while(',
+];
+
+export interface ImportedTags {
+  format: 'ctags' | 'cscope';
+  symbols: Symbol[];
+  skipped: number;   // entries whose kind is not indexed or whose source line was not found
+}
+
+function unescapeField(value: string): string {
+  return value.replace(/\\(.)/g, (_, c: string) => (c === 't' ? '\t' : c === 'n' ? '\n' : c === 'r' ? '\r' : c));
+}
+
+function findColumn(lineText: string, name: string): number {
+  const match = new RegExp(`(^|[^\\w])(${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})(?!\\w)`).exec(lineText);
+  return match ? match.index + match[1].length + 1 : 1;
+}
+
+// Reads source files at most once, for tags located by a search pattern
+class SourceLines {
+  private cache: Map<string, string[] | null> = new Map();
+
+  get(filePath: string): string[] | null {
+    if (!this.cache.has(filePath)) {
+      try {
+        this.cache.set(filePath, fs.readFileSync(filePath, 'utf-8').split('\n').map(l => l.replace(/\r$/, '')));
+      } catch {
+        this.cache.set(filePath, null);
+      }
+    }
+    return this.cache.get(filePath)!;
+  }
+
+  // Line number of an ex search pattern (/^text$/); truncated patterns lose their '$'
+  find(filePath: string, pattern: string): number | null {
+    const lines = this.get(filePath);
+    if (!lines) return null;
+
+    const anchoredStart = pattern.startsWith('^');
+    const anchoredEnd = pattern.endsWith('$') && !pattern.endsWith('\\$');
+    const text = pattern.substring(anchoredStart ? 1 : 0, pattern.length - (anchoredEnd ? 1 : 0));
+    const index = lines.findIndex(line =>
+      anchoredStart && anchoredEnd ? line === text : anchoredStart ? line.startsWith(text) : line.includes(text)
+    );
+    return index === -1 ? null : index + 1;
+  }
+}
+
+// Address field of a tag line: a line number or an ex search pattern, up to ;"
+function parseAddress(text: string): { line?: number; pattern?: string; rest: string } {
+  const number = text.match(/^(\d+)(?:;"|$)/);
+  if (number) {
+    return { line: Number(number[1]), rest: text.substring(number[0].length) };
+  }
+
+  const delimiter = text[0];
+  if (delimiter !== '/' && delimiter !== '?') {
+    return { rest: text.substring(text.indexOf(';"') + 2) };
+  }
+
+  let pattern = '';
+  let i = 1;
+  for (; i < text.length && text[i] !== delimiter; i++) {
+    if (text[i] === '\\' && (text[i + 1] === delimiter || text[i + 1] === '\\')) {
+      i++;
+    }
+    pattern += text[i];
+  }
+  const rest = text.substring(i + 1);
+  return { pattern, rest: rest.startsWith(';"') ? rest.substring(2) : rest };
+}
+
+// Universal Ctags file in the extended format:
+// name<TAB>file<TAB>address;"<TAB>kind<TAB>key:value...
+function parseCtags(content: string, tagsPath: string): ImportedTags {
+  const baseDir = path.dirname(tagsPath);
+  const sources = new SourceLines();
+  const symbols: Symbol[] = [];
+  let skipped = 0;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line || line.startsWith('!_')) continue;
+
+    const nameEnd = line.indexOf('\t');
+    const fileEnd = line.indexOf('\t', nameEnd + 1);
+    if (nameEnd === -1 || fileEnd === -1) continue;
+
+    const tagName = line.substring(0, nameEnd);
+    const filePath = path.resolve(baseDir, line.substring(nameEnd + 1, fileEnd));
+    const address = parseAddress(line.substring(fileEnd + 1));
+
+    // The kind may be a bare letter; everything else is key:value
+    const fields: Record<string, string> = {};
+    address.rest.split('\t').filter(Boolean).forEach((field, i) => {
+      const colon = field.indexOf(':');
+      if (colon === -1) {
+        if (i === 0) fields.kind = field;
+      } else {
+        fields[field.substring(0, colon)] = unescapeField(field.substring(colon + 1));
+      }
+    });
+
+    const language = (fields.language ?? '').toLowerCase() === 'python' || getLanguageFromExtension(filePath) === 'python'
+      ? 'python'
+      : 'c';
+    const mapping = (language === 'python' ? PYTHON_KINDS : C_KINDS)[fields.kind ?? ''];
+    // Qualified duplicates written by --extras=+q ("Foo::bar", "Foo.bar") are skipped
+    const qualifiedExtra = tagName.includes('::') || (language === 'python' && mapping?.kind !== 'import' && tagName.includes('.'));
+    if (!mapping || qualifiedExtra) {
+      skipped++;
+      continue;
+    }
+
+    const lineNumber = Number(fields.line) || address.line || (address.pattern ? sources.find(filePath, address.pattern) : null);
+    if (!lineNumber) {
+      skipped++;
+      continue;
+    }
+
+    // Scope: "scope:class:Foo" (--fields=+Z) or "class:Foo"; anonymous scopes are left out
+    const scopeField = fields.scope?.replace(/^[^:]+:/, '') ?? SCOPE_FIELDS.map(key => fields[key]).find(Boolean);
+    const separator = language === 'python' ? '.' : '::';
+    const container = scopeField
+      ?.split(separator)
+      .filter(part => part && !part.startsWith('__anon'))
+      .join(separator) || undefined;
+    const scopeKind = fields.scope?.split(':')[0] ?? SCOPE_FIELDS.find(key => fields[key]);
+
+    const name = tagName.replace(/^~/, '');
+    let kind = mapping.kind;
+    if (kind === 'function' && scopeKind && ['class', 'struct', 'union'].includes(scopeKind)) {
+      kind = 'method';
+    }
+
+    const lineText = sources.get(filePath)?.[lineNumber - 1] ?? address.pattern?.replace(/^\^|\$$/g, '') ?? '';
+    const symbol: Symbol = {
+      name,
+      kind,
+      filePath,
+      line: lineNumber,
+      column: findColumn(lineText, name),
+      signature: lineText.trim() || (fields.signature ? `${name}${fields.signature}` : undefined),
+      qualifiedName: container ? `${container}${separator}${name}` : name,
+      container,
+    };
+    if (fields.end) symbol.endLine = Number(fields.end);
+    if (mapping.isDefinition !== undefined) symbol.isDefinition = mapping.isDefinition;
+    if (language === 'c' && (kind === 'function' || kind === 'variable')) {
+      symbol.storage = 'file' in fields ? 'static' : mapping.isDefinition === false && kind === 'variable' ? 'extern' : undefined;
+    }
+    if (kind === 'import') {
+      const fromImport = lineText.match(/^\s*from\s+([.\w]+)\s+import\b/);
+      symbol.importModule = fromImport ? fromImport[1] : name;
+      if (fromImport) symbol.importName = fields.nameref?.split(':').pop() ?? name;
+    }
+
+    symbols.push(symbol);
+  }
+
+  return { format: 'ctags', symbols, skipped };
+}
+
+// Expand the digraph and keyword compression of a cscope.out built without -c
+function decompressCscope(text: string): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code >= 0x80 && code <= 0xff) {
+      const c = code & 0x7f;
+      out += DICHAR1[c >> 3] + DICHAR2[c & 7];
+    } else if (code < 0x20 && code !== 0x09 && CSCOPE_KEYWORDS[code] !== undefined) {
+      out += CSCOPE_KEYWORDS[code];
+    } else {
+      out += text[i];
+    }
+  }
+  return out;
+}
+
+// cscope cross-reference: per file a "\t@path" line, then per source line a blank line,
+// "<number> <text>" and alternating symbol / text lines. Marked symbols ("\t$name")
+// are definitions; "\t}" ends a function and "\t;" an enum/struct/union.
+function parseCscope(content: string, cscopePath: string): ImportedTags {
+  const lines = content.split('\n');
+  const header = lines[0].split(' ');
+  const compressed = !header.includes('-c');
+  // File names are relative to the directory cscope ran in, named in the header
+  const baseDir = header[2] && fs.existsSync(header[2]) ? header[2] : path.dirname(cscopePath);
+
+  const symbols: Symbol[] = [];
+  let skipped = 0;
+  let filePath = '';
+  let lineNumber = 0;
+  let lineText = '';
+  let isSymbolLine = false;
+  let openFunction: Symbol | null = null;
+  let aggregate: Symbol | null = null;
+
+  // Pieces of the current source line, to rebuild its text and find columns
+  let pieces: Array<{ text: string; symbol?: Symbol }> = [];
+  const finishLine = () => {
+    let column = 1;
+    for (const piece of pieces) {
+      if (piece.symbol) piece.symbol.column = column;
+      column += piece.text.length;
+    }
+    const signature = pieces.map(p => p.text).join('').trim();
+    pieces.filter(p => p.symbol).forEach(p => {
+      p.symbol!.signature = signature;
+      if ((p.symbol!.kind === 'function' || p.symbol!.kind === 'variable') && /^static\b/.test(signature)) {
+        p.symbol!.storage = 'static';
+      }
+    });
+    pieces = [];
+  };
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('\t@')) {
+      finishLine();
+      // An empty file name ends the cross-reference; the file list follows
+      if (line.length === 2) break;
+      filePath = path.resolve(baseDir, line.substring(2));
+      openFunction = null;
+      aggregate = null;
+      continue;
+    }
+
+    if (line === '') {
+      finishLine();
+      isSymbolLine = false;
+      lineNumber = 0;
+      continue;
+    }
+
+    if (lineNumber === 0) {
+      const numbered = line.match(/^(\d+) ?(.*)$/);
+      if (!numbered) continue;
+      lineNumber = Number(numbered[1]);
+      lineText = compressed ? decompressCscope(numbered[2]) : numbered[2];
+      pieces.push({ text: lineText });
+      isSymbolLine = true;
+      continue;
+    }
+
+    if (!isSymbolLine) {
+      pieces.push({ text: compressed ? decompressCscope(line) : line });
+      isSymbolLine = true;
+      continue;
+    }
+    isSymbolLine = false;
+
+    const mark = line.startsWith('\t') ? line[1] : '';
+    const name = mark ? line.substring(2) : line;
+
+    if (mark === '}' && openFunction) {
+      openFunction.endLine = lineNumber;
+      openFunction = null;
+    } else if (mark === ';') {
+      aggregate = null;
+    }
+
+    let kind: Symbol['kind'] | undefined = mark ? CSCOPE_KINDS[mark] : undefined;
+    // Members are enumerators inside an enum, fields elsewhere
+    if (mark === 'm') kind = aggregate?.kind === 'enum' ? 'enumerator' : 'field';
+    if (!name || !kind) {
+      if (mark && !['}', ';', '`', '~', '=', 'l', 'p', ')'].includes(mark)) skipped++;
+      pieces.push({ text: name });
+      continue;
+    }
+
+    const container = mark === 'm' ? aggregate?.name : undefined;
+    const symbol: Symbol = {
+      name,
+      kind,
+      filePath,
+      line: lineNumber,
+      column: 1,
+      qualifiedName: container ? `${container}::${name}` : name,
+      container,
+    };
+    if (kind === 'function') {
+      symbol.isDefinition = true;
+      openFunction = symbol;
+    }
+    if (kind === 'enum' || kind === 'struct' || kind === 'union' || kind === 'class') {
+      aggregate = symbol;
+    }
+
+    symbols.push(symbol);
+    pieces.push({ text: name, symbol });
+  }
+  finishLine();
+
+  return { format: 'cscope', symbols, skipped };
+}
+
+// Symbols of a ctags "tags" file or a cscope.out cross-reference, told apart by the
+// cscope header. Relative paths resolve against the directory the file was made in.
+export function readTagsFile(filePath: string): ImportedTags {
+  // cscope.out may hold compressed bytes, so it is read one byte per character
+  const content = fs.readFileSync(filePath, 'latin1');
+  if (content.startsWith('cscope ')) {
+    return parseCscope(content, filePath);
+  }
+  return parseCtags(Buffer.from(content, 'latin1').toString('utf-8'), filePath);
+}
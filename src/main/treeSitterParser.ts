@@ -0,0 +1,564 @@
+import Parser from 'web-tree-sitter';
+import type { Symbol } from '../shared/types';
+
+type SyntaxNode = Parser.SyntaxNode;
+type AggregateKind = 'enum' | 'struct' | 'union' | 'class';
+
+// Prebuilt grammars from the tree-sitter-wasms package: nothing is compiled or downloaded
+const GRAMMAR_FILES: Record<string, string> = {
+  c: 'tree-sitter-wasms/out/tree-sitter-c.wasm',
+  cpp: 'tree-sitter-wasms/out/tree-sitter-cpp.wasm',
+  python: 'tree-sitter-wasms/out/tree-sitter-python.wasm',
+};
+
+const AGGREGATE_KINDS: Record<string, AggregateKind> = {
+  enum_specifier: 'enum',
+  struct_specifier: 'struct',
+  union_specifier: 'union',
+  class_specifier: 'class',
+};
+
+// Nodes whose declarations belong to the enclosing scope: #if branches, extern "C" { },
+// template <...> prefixes
+const C_TRANSPARENT_NODES = new Set([
+  'preproc_if', 'preproc_ifdef', 'preproc_elif', 'preproc_elifdef', 'preproc_else',
+  'linkage_specification', 'declaration_list', 'template_declaration',
+]);
+
+// Compound statements whose bodies are still in the enclosing Python scope
+const PYTHON_TRANSPARENT_NODES = new Set([
+  'if_statement', 'elif_clause', 'else_clause', 'try_statement', 'except_clause', 'finally_clause',
+  'with_statement', 'for_statement', 'while_statement', 'block',
+]);
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function joinScope(outer: string | undefined, inner: string | undefined): string | undefined {
+  if (!inner) return outer;
+  return outer ? `${outer}::${inner}` : inner;
+}
+
+// Last line a node covers; a node ending right after a newline stops on the line before
+function lastLine(node: SyntaxNode): number {
+  const end = node.endPosition;
+  return end.column === 0 && end.row > node.startPosition.row ? end.row : end.row + 1;
+}
+
+// Syntax errors and missing tokens in a subtree
+function errorCount(node: SyntaxNode): number {
+  if (!node.hasError) return 0;
+  if (node.type === 'ERROR' || node.isMissing) return 1;
+  return node.children.reduce((count, child) => count + errorCount(child), 0);
+}
+
+function storageOf(node: SyntaxNode): 'static' | 'extern' | undefined {
+  const specifiers = node.namedChildren.filter(c => c.type === 'storage_class_specifier').map(c => c.text);
+  return specifiers.includes('static') ? 'static' : specifiers.includes('extern') ? 'extern' : undefined;
+}
+
+// What a declarator declares: the node holding the name, and whether it is a function.
+// Pointers, references, arrays and initializers are looked through; "(*cb)(void)" is a
+// function pointer variable and "MACRO(name)(params)" an attribute-wrapped function.
+function declaredName(declarator: SyntaxNode | null): { node: SyntaxNode; isFunction: boolean } | null {
+  let node = declarator;
+  while (node) {
+    if (node.type === 'function_declarator') {
+      const inner = node.childForFieldName('declarator');
+      if (!inner) return null;
+      if (inner.type === 'parenthesized_declarator') {
+        const pointer = declaredName(inner.namedChildren[0] ?? null);
+        return pointer ? { node: pointer.node, isFunction: false } : null;
+      }
+      if (inner.type === 'function_declarator') {
+        const params = inner.childForFieldName('parameters')?.namedChildren ?? [];
+        const wrapped = params.length === 1 && params[0].namedChildren.length === 1 ? params[0].namedChildren[0] : null;
+        if (wrapped && /^(?:type_)?identifier$/.test(wrapped.type)) {
+          return { node: wrapped, isFunction: true };
+        }
+      }
+      return { node: inner, isFunction: true };
+    }
+
+    if (/identifier$|^(?:destructor_name|operator_name|template_function)$/.test(node.type)) {
+      return { node, isFunction: false };
+    }
+
+    // pointer_declarator, init_declarator, array_declarator ... and the unnamed
+    // children of reference_declarator / parenthesized_declarator
+    node = node.childForFieldName('declarator') ?? node.namedChildren.find(c => /declarator|identifier/.test(c.type)) ?? null;
+  }
+  return null;
+}
+
+// Name, name position and class/namespace qualifier ("Foo" for Foo::init) of a declared name.
+// Destructors are named after their class, as in the regex parser.
+function nameParts(node: SyntaxNode): { name: string; nameNode: SyntaxNode; qualifier?: string } {
+  const qualifiers: string[] = [];
+  let current = node;
+  while (current.type === 'qualified_identifier') {
+    const scope = current.childForFieldName('scope');
+    if (scope) {
+      qualifiers.push(scope.type === 'template_type' ? scope.childForFieldName('name')!.text : scope.text);
+    }
+    const name = current.childForFieldName('name');
+    if (!name) break;
+    current = name;
+  }
+
+  if (current.type === 'destructor_name' || current.type === 'template_function') {
+    current = current.childForFieldName('name') ?? current.namedChildren[0] ?? current;
+  }
+
+  return {
+    name: current.type === 'operator_name' ? collapse(current.text) : current.text,
+    nameNode: current,
+    qualifier: qualifiers.length > 0 ? qualifiers.join('::') : undefined,
+  };
+}
+
+// C/C++ symbols from a syntax tree. Positions come from the tree; signatures are cut
+// from the original text so string literals blanked in the parsed code come back.
+class CSymbolCollector {
+  readonly symbols: Symbol[] = [];
+
+  constructor(private content: string, private lines: string[], private filePath: string) {}
+
+  // Declarations at file or namespace scope
+  visitScope(node: SyntaxNode, namespace: string | undefined): void {
+    for (const child of node.namedChildren) {
+      if (child.type === 'namespace_definition') {
+        const body = child.childForFieldName('body');
+        const name = child.childForFieldName('name');
+        if (body) this.visitScope(body, joinScope(namespace, name ? collapse(name.text) : undefined));
+      } else if (child.type === 'function_definition') {
+        this.addFunction(child, namespace, false);
+      } else if (child.type === 'declaration') {
+        this.addDeclaration(child, namespace);
+      } else if (child.type === 'type_definition') {
+        this.addTypedef(child, namespace);
+      } else if (AGGREGATE_KINDS[child.type] && child.childForFieldName('body')) {
+        const tag = child.childForFieldName('name')?.text;
+        this.addAggregate(child, joinScope(namespace, tag), namespace);
+      } else if (C_TRANSPARENT_NODES.has(child.type)) {
+        this.visitScope(child, namespace);
+      }
+    }
+  }
+
+  // Object-like and function-like #define macros anywhere in the file, following
+  // backslash continuations for the range and the signature
+  addMacros(root: SyntaxNode): void {
+    for (const macro of root.descendantsOfType(['preproc_def', 'preproc_function_def'])) {
+      const nameNode = macro.childForFieldName('name');
+      if (!nameNode) continue;
+
+      let endRow = nameNode.startPosition.row;
+      const definitionLines = [this.lines[endRow].replace(/\r$/, '')];
+      while (/\\\s*$/.test(definitionLines[definitionLines.length - 1]) && endRow + 1 < this.lines.length) {
+        endRow++;
+        definitionLines.push(this.lines[endRow].replace(/\r$/, ''));
+      }
+
+      this.symbols.push({
+        name: nameNode.text,
+        kind: 'macro',
+        filePath: this.filePath,
+        line: nameNode.startPosition.row + 1,
+        column: nameNode.startPosition.column + 1,
+        endLine: endRow + 1,
+        endColumn: definitionLines[definitionLines.length - 1].length + 1,
+        signature: definitionLines.map(l => l.trim()).join('\n'),
+      });
+    }
+  }
+
+  private text(start: number, end: number): string {
+    return this.content.substring(start, end);
+  }
+
+  // Declaration text with an inline struct/union/enum body or a brace initializer shortened to { ... }
+  private declarationSignature(node: SyntaxNode): string {
+    const signature = collapse(this.text(node.startIndex, node.endIndex).replace(/\{[\s\S]*\}/, '{ ... }'));
+    return signature.endsWith(';') ? signature : `${signature};`;
+  }
+
+  // Text up to endIndex, starting at a template <...> prefix when there is one
+  private headerText(node: SyntaxNode, endIndex: number): string {
+    const start = node.parent?.type === 'template_declaration' ? node.parent : node;
+    return collapse(this.text(start.startIndex, endIndex));
+  }
+
+  private addFunction(node: SyntaxNode, container: string | undefined, isMember: boolean): void {
+    const declared = declaredName(node.childForFieldName('declarator'));
+    if (!declared || !declared.isFunction) return;
+
+    const { name, nameNode, qualifier } = nameParts(declared.node);
+    const body = node.childForFieldName('body');
+    // "Foo::init" defined out of line is a method of Foo
+    this.symbols.push({
+      name,
+      kind: isMember || qualifier ? 'method' : 'function',
+      filePath: this.filePath,
+      line: nameNode.startPosition.row + 1,
+      column: nameNode.startPosition.column + 1,
+      endLine: node.endPosition.row + 1,
+      endColumn: node.endPosition.column + 1,
+      signature: this.headerText(node, body ? body.startIndex : node.endIndex),
+      container: joinScope(container, qualifier),
+      storage: storageOf(node),
+      isDefinition: true,
+    });
+  }
+
+  // Prototypes and variables (with a struct/union/enum defined in place, if any)
+  private addDeclaration(node: SyntaxNode, container: string | undefined, isMember = false, typeName?: string): void {
+    const type = node.childForFieldName('type');
+    if (type && AGGREGATE_KINDS[type.type] && type.childForFieldName('body')) {
+      const tag = type.childForFieldName('name')?.text;
+      if (isMember) {
+        // Members of anonymous nested structs/unions belong to the enclosing type.
+        // Types nested in a C++ class are scoped by it; C struct tags are not.
+        const nested = tag ? (typeName !== undefined && container ? `${container}::${tag}` : tag) : container;
+        this.addAggregate(type, nested, container);
+      } else {
+        this.addAggregate(type, joinScope(container, tag), container);
+      }
+    }
+
+    const storage = storageOf(node);
+    for (const declarator of node.childrenForFieldName('declarator')) {
+      const declared = declaredName(declarator);
+      if (!declared) continue;
+
+      const { name, nameNode, qualifier } = nameParts(declared.node);
+      if (!name) continue;
+      const position = {
+        filePath: this.filePath,
+        line: nameNode.startPosition.row + 1,
+        column: nameNode.startPosition.column + 1,
+      };
+
+      if (declared.isFunction) {
+        this.symbols.push({
+          name,
+          kind: isMember || qualifier ? 'method' : 'function',
+          ...position,
+          endLine: node.endPosition.row + 1,
+          endColumn: node.endPosition.column + 1,
+          signature: this.headerText(node, node.endIndex).replace(/\s*;$/, ''),
+          container: joinScope(container, qualifier),
+          storage,
+          isDefinition: false,
+        });
+      } else if (isMember) {
+        this.symbols.push({ name, kind: 'field', ...position, signature: this.declarationSignature(node), container });
+      } else {
+        this.symbols.push({
+          name,
+          kind: 'variable',
+          ...position,
+          signature: this.declarationSignature(node),
+          container,
+          storage,
+          isDefinition: storage !== 'extern' || declarator.type === 'init_declarator',
+        });
+      }
+    }
+  }
+
+  private addTypedef(node: SyntaxNode, container: string | undefined): void {
+    const type = node.childForFieldName('type');
+    const aggregate = type && AGGREGATE_KINDS[type.type] && type.childForFieldName('body') ? type : null;
+    const names = node.childrenForFieldName('declarator')
+      .map(d => declaredName(d))
+      .filter((d): d is { node: SyntaxNode; isFunction: boolean } => d !== null)
+      .map(d => nameParts(d.node));
+
+    let signature = collapse(this.text(node.startIndex, node.endIndex));
+    if (aggregate) {
+      // typedef enum|struct|union [tag] { ... } name;
+      const kind = AGGREGATE_KINDS[aggregate.type];
+      const tag = aggregate.childForFieldName('name')?.text;
+      this.addAggregate(aggregate, joinScope(container, tag || names[0]?.name), container);
+      signature = `typedef ${kind} ${tag || '{ ... }'} ${names[0]?.name ?? ''};`;
+    }
+
+    for (const { name, nameNode } of names) {
+      this.symbols.push({
+        name,
+        kind: 'typedef',
+        filePath: this.filePath,
+        line: nameNode.startPosition.row + 1,
+        column: nameNode.startPosition.column + 1,
+        signature,
+        container,
+      });
+    }
+  }
+
+  // One enum/struct/union/class with a body (recorded when named) and everything declared
+  // in it. containerName scopes the members; parentContainer is where the type lives.
+  private addAggregate(node: SyntaxNode, containerName: string | undefined, parentContainer: string | undefined): void {
+    const kind = AGGREGATE_KINDS[node.type];
+    const body = node.childForFieldName('body')!;
+    const nameNode = node.childForFieldName('name');
+    const name = nameNode ? nameParts(nameNode).name : undefined;
+
+    if (nameNode && name) {
+      this.symbols.push({
+        name,
+        kind,
+        filePath: this.filePath,
+        line: nameNode.startPosition.row + 1,
+        column: nameNode.startPosition.column + 1,
+        endLine: body.endPosition.row + 1,
+        endColumn: body.endPosition.column,
+        signature: `${kind} ${name}`,
+        container: parentContainer,
+      });
+    }
+
+    if (kind === 'enum') {
+      this.addEnumerators(body, containerName);
+    } else {
+      this.visitMembers(body, kind === 'class' ? name ?? '' : undefined, containerName);
+    }
+  }
+
+  private addEnumerators(list: SyntaxNode, containerName: string | undefined): void {
+    for (const child of list.namedChildren) {
+      if (C_TRANSPARENT_NODES.has(child.type)) {
+        this.addEnumerators(child, containerName);
+        continue;
+      }
+      if (child.type !== 'enumerator') continue;
+
+      const nameNode = child.childForFieldName('name')!;
+      const value = child.childForFieldName('value');
+      this.symbols.push({
+        name: nameNode.text,
+        kind: 'enumerator',
+        filePath: this.filePath,
+        line: nameNode.startPosition.row + 1,
+        column: nameNode.startPosition.column + 1,
+        signature: value ? `${nameNode.text} = ${collapse(this.text(value.startIndex, value.endIndex))}` : nameNode.text,
+        container: containerName,
+      });
+    }
+  }
+
+  // className is set inside a C++ class, where nested types take the class as scope
+  private visitMembers(body: SyntaxNode, className: string | undefined, containerName: string | undefined): void {
+    for (const child of body.namedChildren) {
+      if (child.type === 'function_definition') {
+        this.addFunction(child, containerName, true);
+      } else if (child.type === 'field_declaration' || child.type === 'declaration') {
+        this.addDeclaration(child, containerName, true, className);
+      } else if (child.type === 'type_definition') {
+        this.addTypedef(child, containerName);
+      } else if (C_TRANSPARENT_NODES.has(child.type)) {
+        this.visitMembers(child, className, containerName);
+      }
+    }
+  }
+}
+
+// Python symbols from a syntax tree, mirroring the regex parser's records
+class PythonSymbolCollector {
+  readonly symbols: Symbol[] = [];
+  private assigned = new Set<string>();
+
+  constructor(private content: string, private lines: string[], private filePath: string) {}
+
+  visitBlock(node: SyntaxNode, parent: Symbol | undefined, isModule: boolean): void {
+    for (const child of node.namedChildren) {
+      if (child.type === 'function_definition' || child.type === 'class_definition') {
+        this.addDefinition(child, [], parent);
+      } else if (child.type === 'decorated_definition') {
+        const definition = child.childForFieldName('definition');
+        const decorators = child.namedChildren
+          .filter(c => c.type === 'decorator')
+          .map(c => collapse(c.text).replace(/^@\s*/, ''));
+        if (definition) this.addDefinition(definition, decorators, parent);
+      } else if (child.type === 'import_statement' || child.type === 'import_from_statement') {
+        this.addImports(child, parent);
+      } else if (child.type === 'expression_statement' && isModule) {
+        this.addAssignment(child);
+      } else if (PYTHON_TRANSPARENT_NODES.has(child.type)) {
+        this.visitBlock(child, parent, false);
+      }
+    }
+  }
+
+  private addDefinition(node: SyntaxNode, decorators: string[], parent: Symbol | undefined): void {
+    const nameNode = node.childForFieldName('name');
+    const body = node.childForFieldName('body');
+    if (!nameNode || !body) return;
+
+    const isClass = node.type === 'class_definition';
+    const container = parent?.qualifiedName;
+    const colon = node.children.find(c => c.type === ':' && c.startIndex < body.startIndex);
+    const symbol: Symbol = {
+      name: nameNode.text,
+      kind: isClass ? 'class' : parent?.kind === 'class' ? 'method' : 'function',
+      filePath: this.filePath,
+      line: nameNode.startPosition.row + 1,
+      column: nameNode.startPosition.column + 1,
+      endLine: lastLine(node),
+      signature: collapse(this.content.substring(node.startIndex, colon ? colon.startIndex : body.startIndex)),
+      qualifiedName: container ? `${container}.${nameNode.text}` : nameNode.text,
+      container,
+      isDefinition: true,
+    };
+    if (decorators.length > 0) {
+      symbol.decorators = decorators;
+    }
+    if (isClass) {
+      // Keyword arguments such as metaclass=... are not base classes
+      const bases = (node.childForFieldName('superclasses')?.namedChildren ?? [])
+        .filter(c => c.type !== 'keyword_argument' && c.type !== 'comment')
+        .map(c => collapse(c.text));
+      if (bases.length > 0) symbol.bases = bases;
+    }
+
+    this.symbols.push(symbol);
+    this.visitBlock(body, symbol, false);
+  }
+
+  // import / from ... import statements; each bound name becomes an 'import' symbol
+  private addImports(node: SyntaxNode, parent: Symbol | undefined): void {
+    const container = parent?.qualifiedName;
+    const signature = collapse(node.text);
+    const fromModule = node.type === 'import_from_statement'
+      ? collapse(node.childForFieldName('module_name')?.text ?? '')
+      : undefined;
+
+    for (const item of node.childrenForFieldName('name')) {
+      const original = item.type === 'aliased_import' ? item.childForFieldName('name')! : item;
+      const bound = item.type === 'aliased_import' ? item.childForFieldName('alias')! : item;
+      const name = collapse(bound.text);
+      this.symbols.push({
+        name,
+        kind: 'import',
+        filePath: this.filePath,
+        line: bound.startPosition.row + 1,
+        column: bound.startPosition.column + 1,
+        signature,
+        qualifiedName: container ? `${container}.${name}` : name,
+        container,
+        isDefinition: false,
+        importModule: fromModule ?? collapse(original.text),
+        importName: fromModule !== undefined ? collapse(original.text) : undefined,
+      });
+    }
+  }
+
+  // Module-level "NAME = value" / "NAME: type = value" / "a, b = ..." assignments;
+  // later reassignments in the same module are not new definitions
+  private addAssignment(statement: SyntaxNode): void {
+    const assignment = statement.namedChildren[0];
+    if (!assignment || assignment.type !== 'assignment' || !assignment.childForFieldName('right')) return;
+
+    const left = assignment.childForFieldName('left');
+    const targets = left?.type === 'identifier'
+      ? [left]
+      : left?.type === 'pattern_list' ? left.namedChildren.filter(c => c.type === 'identifier') : [];
+
+    for (const target of targets) {
+      if (this.assigned.has(target.text)) continue;
+      this.assigned.add(target.text);
+      this.symbols.push({
+        name: target.text,
+        kind: 'variable',
+        filePath: this.filePath,
+        line: target.startPosition.row + 1,
+        column: target.startPosition.column + 1,
+        signature: this.lines[target.startPosition.row].trim(),
+        qualifiedName: target.text,
+        isDefinition: true,
+      });
+    }
+  }
+}
+
+let runtime: Promise<void> | null = null;
+
+// Symbol extraction with tree-sitter grammars (C, C++, Python). Grammars load on first
+// use; a language whose grammar fails to load, a file the grammar cannot parse without
+// errors and a file yielding no symbols report null so callers fall back to the regex parser.
+export class TreeSitterParser {
+  private parsers: Map<string, Promise<Parser | null>> = new Map();
+
+  static supports(language: string): boolean {
+    return language in GRAMMAR_FILES;
+  }
+
+  // code is what gets parsed (comments/strings may be blanked, offsets unchanged);
+  // content is the original text used for signatures
+  async parseSymbols(code: string, content: string, lines: string[], filePath: string, language: string): Promise<Symbol[] | null> {
+    const parser = await this.getParser(language);
+    if (!parser) return null;
+
+    let tree = parser.parse(code);
+    if (language === 'c' && tree.rootNode.hasError) {
+      // .h files are read as C but may hold C++; keep whichever grammar fits better
+      const cppParser = await this.getParser('cpp');
+      const cppTree = cppParser?.parse(code);
+      if (cppTree && errorCount(cppTree.rootNode) < errorCount(tree.rootNode)) {
+        tree.delete();
+        tree = cppTree;
+      } else {
+        cppTree?.delete();
+      }
+    }
+
+    try {
+      // Error recovery can swallow whole functions (e.g. braces opened under #ifdef)
+      if (tree.rootNode.hasError) return null;
+
+      if (language === 'python') {
+        const collector = new PythonSymbolCollector(content, lines, filePath);
+        collector.visitBlock(tree.rootNode, undefined, true);
+        return collector.symbols.length > 0 ? collector.symbols : null;
+      }
+
+      const collector = new CSymbolCollector(content, lines, filePath);
+      collector.visitScope(tree.rootNode, undefined);
+      collector.addMacros(tree.rootNode);
+      // Qualified names follow the container chain (namespace::Class::member)
+      for (const symbol of collector.symbols) {
+        symbol.qualifiedName = symbol.container ? `${symbol.container}::${symbol.name}` : symbol.name;
+      }
+      return collector.symbols.length > 0 ? collector.symbols : null;
+    } finally {
+      tree.delete();
+    }
+  }
+
+  private getParser(language: string): Promise<Parser | null> {
+    let parser = this.parsers.get(language);
+    if (!parser) {
+      parser = this.loadParser(language);
+      this.parsers.set(language, parser);
+    }
+    return parser;
+  }
+
+  private async loadParser(language: string): Promise<Parser | null> {
+    if (!TreeSitterParser.supports(language)) return null;
+
+    try {
+      runtime = runtime ?? Parser.init();
+      await runtime;
+      const grammar = await Parser.Language.load(require.resolve(GRAMMAR_FILES[language]));
+      const parser = new Parser();
+      parser.setLanguage(grammar);
+      return parser;
+    } catch (err) {
+      console.error(`Failed to load the tree-sitter grammar for ${language}, using the regex parser:`, err);
+      return null;
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
 import Editor from './components/Editor';
 import MenuBar from './components/MenuBar';
@@ -6,7 +6,15 @@ import StatusBar from './components/StatusBar';
 import BuildProgressModal from './components/BuildProgressModal';
 import SymbolList from './components/SymbolList';
 import CflagsModal from './components/CflagsModal';
-import type { FileNode, Symbol, SymbolIndex, BuildProgress } from '../shared/types';
+import ExportSymbolsModal from './components/ExportSymbolsModal';
+import ReferencesPanel from './components/ReferencesPanel';
+import CallHierarchyPanel from './components/CallHierarchyPanel';
+import IncludeHierarchyPanel from './components/IncludeHierarchyPanel';
+import type {
+  FileNode, Symbol, SymbolIndex, SymbolReference, BuildProgress, DefinitionRequest, CallHierarchyItem,
+  BuildConfigurationState, OptFile, FileFlags, ParserBackend,
+} from '../shared/types';
+import { applyDefineOverrides, DefineOverride } from '../shared/preprocessor';
 
 interface OpenFile {
   path: string;
@@ -54,6 +62,23 @@ function App() {
   const [projectFiles, setProjectFiles] = useState<string[]>([]);
   const [defines, setDefines] = useState<Record<string, string | null>>({});
   const [showCflagsModal, setShowCflagsModal] = useState(false);
+  const [showExportSymbols, setShowExportSymbols] = useState(false);
+  const [optFile, setOptFile] = useState<OptFile | null>(null);
+  // What-if edits from the CFLAGS view; kept for this session only
+  const [defineOverrides, setDefineOverrides] = useState<Record<string, DefineOverride>>({});
+  // compile_commands.json flags of the active file, used instead of the global defines
+  const [fileFlags, setFileFlags] = useState<{ filePath: string; flags: FileFlags } | null>(null);
+  const [configurationState, setConfigurationState] = useState<BuildConfigurationState>({ configurations: [], active: null });
+  // Parser backend of the open project (null until a folder is open)
+  const [parserBackend, setParserBackend] = useState<ParserBackend | null>(null);
+  const [referencesQuery, setReferencesQuery] = useState<{ symbolName: string; origin: Location } | null>(null);
+  const [references, setReferences] = useState<SymbolReference[]>([]);
+  const [callHierarchy, setCallHierarchy] = useState<{ root: CallHierarchyItem; origin: Location } | null>(null);
+  const [includeHierarchyFile, setIncludeHierarchyFile] = useState<string | null>(null);
+  // Open files modified or deleted on disk since they were read
+  const [externalChanges, setExternalChanges] = useState<Record<string, 'changed' | 'deleted'>>({});
+  const openFilesRef = useRef<OpenFile[]>([]);
+  openFilesRef.current = openFiles;
 
   const refreshSymbols = async () => {
     try {
@@ -77,20 +102,43 @@ function App() {
       setProjectFiles(collectFilesFromTree(tree));
       refreshSymbols();
       window.electronAPI.getDefines().then((d) => setDefines(d));
+      window.electronAPI.getOptFile().then(setOptFile);
+      window.electronAPI.getConfigurations().then(setConfigurationState);
+      window.electronAPI.getParserBackend().then(setParserBackend);
     });
 
     // Listen for build progress (single centralized listener)
     window.electronAPI.onBuildProgress((progress) => {
       setBuildProgress(progress);
 
-      if (progress.phase !== 'complete') {
-        setShowBuildProgress(true);
-      } else {
+      if (progress.phase === 'complete') {
         setTimeout(() => setShowBuildProgress(false), 1500);
         refreshSymbols();
+      } else if (progress.phase === 'failed') {
+        // The main process explains the failure in a dialog
+        setShowBuildProgress(false);
+      } else {
+        setShowBuildProgress(true);
       }
     });
 
+    // File watcher: files or directories added/removed on disk
+    window.electronAPI.onFileTreeUpdated((tree) => {
+      setFileTree(tree);
+      setProjectFiles(collectFilesFromTree(tree));
+    });
+
+    // File watcher: offer to reload open tabs whose file changed on disk
+    window.electronAPI.onFilesChanged(({ changed, removed }) => {
+      const openPaths = new Set(openFilesRef.current.map(f => f.path));
+      setExternalChanges((prev) => {
+        const next = { ...prev };
+        changed.filter(p => openPaths.has(p)).forEach(p => { next[p] = 'changed'; });
+        removed.filter(p => openPaths.has(p)).forEach(p => { next[p] = 'deleted'; });
+        return next;
+      });
+    });
+
     // Listen for explicit symbols-updated notifications
     (window as any).electronAPI.onSymbolsUpdated(() => {
       refreshSymbols();
@@ -101,9 +149,20 @@ function App() {
       setShowCflagsModal(true);
     });
 
+    // Export Symbols from menu
+    window.electronAPI.onExportSymbols(() => {
+      setShowExportSymbols(true);
+    });
+
     // Defines updated from menu
     window.electronAPI.onDefinesUpdated(() => {
       window.electronAPI.getDefines().then((d: Record<string, string | null>) => setDefines(d));
+      window.electronAPI.getOptFile().then(setOptFile);
+    });
+
+    // Build configuration added or switched (Load Cflags, status bar)
+    window.electronAPI.onConfigurationsUpdated((state) => {
+      setConfigurationState(state);
     });
   }, []);
 
@@ -115,9 +174,23 @@ function App() {
       refreshSymbols();
       const d = await window.electronAPI.getDefines();
       setDefines(d);
+      setOptFile(await window.electronAPI.getOptFile());
+      setConfigurationState(await window.electronAPI.getConfigurations());
+      setParserBackend(await window.electronAPI.getParserBackend());
     }
   };
 
+  // Defines and symbols follow through the defines-updated / symbols-updated events
+  const handleConfigurationChange = async (name: string) => {
+    setConfigurationState(await window.electronAPI.setActiveConfiguration(name));
+  };
+
+  // The index is rebuilt in the main process; symbols follow through symbols-updated
+  const handleParserBackendChange = async (backend: ParserBackend) => {
+    setParserBackend(backend);
+    setParserBackend(await window.electronAPI.setParserBackend(backend));
+  };
+
   const handleFileSelect = async (filePath: string) => {
     // Check if file is already open
     const existingIndex = openFiles.findIndex(f => f.path === filePath);
@@ -174,6 +247,51 @@ function App() {
     setGoToLocation({ filePath: targetFilePath, line: targetLine, column: targetColumn });
   };
 
+  // Jump from a panel or dialog; Back returns to where the user was in the active file
+  const handleNavigate = (filePath: string, line: number, column: number) => {
+    const origin: Location = activeFile && goToLocation && goToLocation.filePath === activeFile.path
+      ? goToLocation
+      : { filePath: activeFile?.path ?? filePath, line: 1, column: 1 };
+    handleGoToDefinition(origin.filePath, origin.line, origin.column, filePath, line, column);
+  };
+
+  const handleFindReferences = async (
+    symbolName: string,
+    sourceFilePath: string,
+    sourceLine: number,
+    sourceColumn: number
+  ) => {
+    const results = await window.electronAPI.findReferences(symbolName);
+    setReferences(results);
+    setReferencesQuery({
+      symbolName,
+      origin: { filePath: sourceFilePath, line: sourceLine, column: sourceColumn },
+    });
+  };
+
+  const handleShowCallHierarchy = async (request: DefinitionRequest, sourceColumn: number) => {
+    const root = await window.electronAPI.prepareCallHierarchy(request);
+    if (!root) return;
+
+    setCallHierarchy({
+      root,
+      origin: { filePath: request.currentFilePath, line: request.line ?? 1, column: sourceColumn },
+    });
+  };
+
+  const clearExternalChange = (filePath: string) => {
+    setExternalChanges((prev) => {
+      const { [filePath]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleReloadFile = async (filePath: string) => {
+    const fileContent = await window.electronAPI.readFile(filePath);
+    setOpenFiles(prev => prev.map(f => (f.path === filePath ? fileContent : f)));
+    clearExternalChange(filePath);
+  };
+
   const handleGoBack = async () => {
     if (navigationStack.length === 0) return;
 
@@ -196,6 +314,26 @@ function App() {
   };
 
   const activeFile = activeFileIndex >= 0 ? openFiles[activeFileIndex] : null;
+  const activeFlags = fileFlags && activeFile && fileFlags.filePath === activeFile.path ? fileFlags.flags : null;
+
+  // Refetched when defines change too: a new compilation database comes with defines-updated
+  useEffect(() => {
+    if (!activeFile) return;
+    const filePath = activeFile.path;
+    window.electronAPI.getFileFlags(filePath)
+      .then((flags) => setFileFlags(flags ? { filePath, flags } : null))
+      .catch(() => setFileFlags(null));
+  }, [activeFile?.path, defines]);
+
+  // A new object whenever an override changes, so the editor reshades #if blocks right away
+  const editorDefines = useMemo(
+    () => applyDefineOverrides(activeFlags ? activeFlags.defines : defines, defineOverrides),
+    [activeFlags, defines, defineOverrides]
+  );
+  const hasOverrides = Object.keys(defineOverrides).length > 0;
+  const baseDefinesSource = activeFlags
+    ? `compile_commands.json (${activeFlags.sourceFile.split(/[/\\]/).pop()})`
+    : configurationState.active ? `${configurationState.active}.opt` : undefined;
 
   return (
     <div className="flex flex-col h-screen bg-[#1e1e1e] text-white">
@@ -212,16 +350,72 @@ function App() {
         />
         
         <div className="flex flex-1 overflow-hidden">
-          <Editor 
-            openFiles={openFiles}
-            activeFileIndex={activeFileIndex}
-            onTabChange={setActiveFileIndex}
-            onTabClose={handleCloseFile}
-            activeFile={activeFile}
-            onGoToDefinition={handleGoToDefinition}
-            goToLocation={goToLocation}
-            defines={defines}
-          />
+          <div className="flex flex-1 flex-col overflow-hidden">
+            <Editor 
+              openFiles={openFiles}
+              activeFileIndex={activeFileIndex}
+              onTabChange={setActiveFileIndex}
+              onTabClose={handleCloseFile}
+              activeFile={activeFile}
+              onGoToDefinition={handleGoToDefinition}
+              onFindReferences={handleFindReferences}
+              onShowCallHierarchy={handleShowCallHierarchy}
+              onShowIncludeHierarchy={setIncludeHierarchyFile}
+              goToLocation={goToLocation}
+              defines={editorDefines}
+              definesSource={hasOverrides
+                ? `${baseDefinesSource ?? 'loaded CFLAGS'} + what-if overrides`
+                : baseDefinesSource}
+              externalChange={activeFile ? externalChanges[activeFile.path] : undefined}
+              onReloadFile={() => activeFile && handleReloadFile(activeFile.path)}
+              onDismissExternalChange={() => activeFile && clearExternalChange(activeFile.path)}
+            />
+
+            {referencesQuery && (
+              <ReferencesPanel
+                symbolName={referencesQuery.symbolName}
+                references={references}
+                onReferenceClick={(ref) => {
+                  const { origin } = referencesQuery;
+                  handleGoToDefinition(
+                    origin.filePath,
+                    origin.line,
+                    origin.column,
+                    ref.filePath,
+                    ref.line,
+                    ref.column
+                  );
+                }}
+                onClose={() => setReferencesQuery(null)}
+              />
+            )}
+          </div>
+
+          {callHierarchy && (
+            <CallHierarchyPanel
+              root={callHierarchy.root}
+              onNavigate={(item) => {
+                const { origin } = callHierarchy;
+                handleGoToDefinition(
+                  origin.filePath,
+                  origin.line,
+                  origin.column,
+                  item.filePath,
+                  item.line,
+                  item.column
+                );
+              }}
+              onClose={() => setCallHierarchy(null)}
+            />
+          )}
+
+          {includeHierarchyFile && (
+            <IncludeHierarchyPanel
+              filePath={includeHierarchyFile}
+              onNavigate={handleNavigate}
+              onClose={() => setIncludeHierarchyFile(null)}
+            />
+          )}
 
           <SymbolList
             symbols={symbols}
@@ -276,6 +470,11 @@ function App() {
       <StatusBar 
         activeFile={activeFile?.path}
         language={activeFile?.language}
+        configurations={configurationState.configurations}
+        activeConfiguration={configurationState.active}
+        onConfigurationChange={handleConfigurationChange}
+        parserBackend={parserBackend ?? undefined}
+        onParserBackendChange={handleParserBackendChange}
       />
 
       <BuildProgressModal 
@@ -286,9 +485,27 @@ function App() {
 
       <CflagsModal
         isOpen={showCflagsModal}
-        defines={defines}
+        defines={activeFlags ? activeFlags.defines : defines}
+        definesSource={baseDefinesSource}
+        undefines={activeFlags ? [] : optFile?.undefines ?? []}
+        optFile={optFile}
+        overrides={defineOverrides}
+        onOverridesChange={setDefineOverrides}
+        configurations={configurationState.configurations}
+        activeConfiguration={configurationState.active}
+        onNavigate={(filePath, line, column) => {
+          setShowCflagsModal(false);
+          handleNavigate(filePath, line, column);
+        }}
         onClose={() => setShowCflagsModal(false)}
       />
+
+      <ExportSymbolsModal
+        isOpen={showExportSymbols}
+        symbols={symbols}
+        rootPath={fileTree?.path ?? null}
+        onClose={() => setShowExportSymbols(false)}
+      />
     </div>
   );
 }
@@ -19,6 +19,8 @@ function BuildProgressModal({ isOpen, progress, onClose }: BuildProgressModalPro
         return 'Saving to database...';
       case 'complete':
         return 'Complete!';
+      case 'failed':
+        return 'Failed';
       default:
         return 'Processing...';
     }
@@ -55,6 +57,12 @@ function BuildProgressModal({ isOpen, progress, onClose }: BuildProgressModalPro
           </div>
         )}
 
+        {progress.skipped !== undefined && progress.skipped > 0 && (
+          <div className="text-sm text-gray-400 mt-1">
+            {progress.skipped} unchanged file{progress.skipped === 1 ? '' : 's'} skipped
+          </div>
+        )}
+
         {progress.phase === 'complete' && (
           <div className="mt-4 text-center text-green-400">
             ✓ Symbol database built successfully!
@@ -0,0 +1,138 @@
+import { useEffect, useState } from 'react';
+import { ChevronRight, ChevronDown, X } from 'lucide-react';
+import type { CallHierarchyItem } from '../../shared/types';
+
+type CallDirection = 'incoming' | 'outgoing';
+
+interface CallHierarchyPanelProps {
+  root: CallHierarchyItem;
+  onNavigate: (item: CallHierarchyItem) => void;
+  onClose: () => void;
+}
+
+interface CallHierarchyNodeProps {
+  item: CallHierarchyItem;
+  direction: CallDirection;
+  depth: number;
+  initiallyExpanded?: boolean;
+  onNavigate: (item: CallHierarchyItem) => void;
+}
+
+function CallHierarchyNode({ item, direction, depth, initiallyExpanded = false, onNavigate }: CallHierarchyNodeProps) {
+  const [expanded, setExpanded] = useState(initiallyExpanded);
+  const [children, setChildren] = useState<CallHierarchyItem[] | null>(null);
+
+  // Functions without a definition in the project (library calls) have no body to look into
+  const expandable = direction === 'incoming' || item.kind !== undefined;
+
+  // Children are fetched on first expansion so recursive call chains stay cheap
+  useEffect(() => {
+    if (!expanded || children !== null) return;
+    const request = direction === 'incoming'
+      ? window.electronAPI.getIncomingCalls(item)
+      : window.electronAPI.getOutgoingCalls(item);
+    request.then(setChildren).catch(() => setChildren([]));
+  }, [expanded, children, direction, item]);
+
+  const fileName = item.filePath.split(/[/\\]/).pop() || item.filePath;
+  const siteLines = item.callSites.map((site) => site.line).join(', ');
+
+  return (
+    <div>
+      <div
+        className="flex items-center gap-1 pr-2 py-0.5 cursor-default hover:bg-[#3e3e42]"
+        style={{ paddingLeft: `${depth * 12 + 4}px` }}
+        onDoubleClick={() => onNavigate(item)}
+        title={siteLines ? `Called at line ${siteLines} of ${item.callSites[0].filePath}` : item.filePath}
+      >
+        <span
+          className="flex-shrink-0 w-3.5 cursor-pointer"
+          onClick={() => expandable && setExpanded(!expanded)}
+        >
+          {expandable && (expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+        </span>
+        <span className={`truncate ${item.kind ? 'text-white' : 'text-[#858585]'}`}>
+          {item.qualifiedName || item.name}
+        </span>
+        {item.callSites.length > 1 && (
+          <span className="text-[10px] text-[#9e9e9e] flex-shrink-0">×{item.callSites.length}</span>
+        )}
+        <span className="ml-auto text-[10px] text-[#9e9e9e] truncate flex-shrink-0 max-w-[45%]">
+          {fileName}:{item.line}
+        </span>
+      </div>
+
+      {expanded && children === null && (
+        <div className="py-0.5 text-[#858585]" style={{ paddingLeft: `${(depth + 1) * 12 + 22}px` }}>
+          Loading...
+        </div>
+      )}
+
+      {expanded && children !== null && children.length === 0 && depth === 0 && (
+        <div className="py-0.5 text-[#858585]" style={{ paddingLeft: `${(depth + 1) * 12 + 22}px` }}>
+          No {direction} calls
+        </div>
+      )}
+
+      {expanded && children?.map((child) => (
+        <CallHierarchyNode
+          key={`${child.filePath}:${child.line}:${child.name}`}
+          item={child}
+          direction={direction}
+          depth={depth + 1}
+          onNavigate={onNavigate}
+        />
+      ))}
+    </div>
+  );
+}
+
+function CallHierarchyPanel({ root, onNavigate, onClose }: CallHierarchyPanelProps) {
+  const [direction, setDirection] = useState<CallDirection>('incoming');
+
+  return (
+    <div className="w-72 border-l border-[#3e3e42] bg-[#252526] flex flex-col">
+      <div className="border-b border-[#3e3e42]">
+        <div className="flex items-center justify-between px-2 py-1 text-xs">
+          <span className="font-semibold uppercase text-[#cccccc]">Call Hierarchy</span>
+          <button
+            className="hover:bg-[#3e3e42] rounded p-0.5"
+            onClick={onClose}
+            title="Close"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <div className="flex text-xs border-t border-[#3e3e42]">
+          {(['incoming', 'outgoing'] as CallDirection[]).map((d) => (
+            <button
+              key={d}
+              className={`flex-1 px-2 py-1 border-b-2 ${
+                direction === d
+                  ? 'border-[#007acc] text-white'
+                  : 'border-transparent text-[#9e9e9e] hover:text-[#cccccc]'
+              }`}
+              onClick={() => setDirection(d)}
+            >
+              {d === 'incoming' ? 'Incoming Calls' : 'Outgoing Calls'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto text-xs py-1">
+        {/* Remount the tree when the root or direction changes so cached children are dropped */}
+        <CallHierarchyNode
+          key={`${direction}:${root.filePath}:${root.line}:${root.name}`}
+          item={root}
+          direction={direction}
+          depth={0}
+          initiallyExpanded
+          onNavigate={onNavigate}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default CallHierarchyPanel;
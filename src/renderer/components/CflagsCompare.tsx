@@ -0,0 +1,312 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { BuildConfiguration, SymbolReference } from '../../shared/types';
+
+type Defines = Record<string, string | null>;
+type DiffKind = 'onlyLeft' | 'onlyRight' | 'different' | 'same';
+
+// One macro in the comparison; undefined means not defined on that side
+interface DiffEntry {
+  name: string;
+  kind: DiffKind;
+  left?: string | null;
+  right?: string | null;
+}
+
+interface CflagsCompareProps {
+  configurations: BuildConfiguration[];
+  activeConfiguration: string | null;
+  onNavigate: (filePath: string, line: number, column: number) => void;
+}
+
+const KIND_LABELS: Record<DiffKind, string> = {
+  onlyLeft: 'Only left',
+  onlyRight: 'Only right',
+  different: 'Different',
+  same: 'Same',
+};
+
+const KIND_COLORS: Record<DiffKind, string> = {
+  onlyLeft: 'text-[#f48771]',
+  onlyRight: 'text-[#89d185]',
+  different: 'text-[#cca700]',
+  same: 'text-[#9e9e9e]',
+};
+
+const BROWSE = '__browse__';
+
+function diffDefines(left: Defines, right: Defines): DiffEntry[] {
+  const has = (defines: Defines, name: string) => Object.prototype.hasOwnProperty.call(defines, name);
+  const names = Array.from(new Set([...Object.keys(left), ...Object.keys(right)])).sort((a, b) => a.localeCompare(b));
+
+  return names.map((name) => {
+    const entry: DiffEntry = { name, kind: 'same' };
+    if (has(left, name)) entry.left = left[name];
+    if (has(right, name)) entry.right = right[name];
+
+    if (!has(right, name)) entry.kind = 'onlyLeft';
+    else if (!has(left, name)) entry.kind = 'onlyRight';
+    else if (left[name] !== right[name]) entry.kind = 'different';
+    return entry;
+  });
+}
+
+function formatValue(value: string | null | undefined): string {
+  if (value === undefined) return '-';
+  return value === null ? '(no value)' : value;
+}
+
+// "=value" suffix for -DNAME=value, nothing for a bare -DNAME
+function formatDefine(value: string | null | undefined): string {
+  return value === null || value === undefined ? '' : `=${value}`;
+}
+
+function fileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath;
+}
+
+function CflagsCompare({ configurations, activeConfiguration, onNavigate }: CflagsCompareProps) {
+  // Opt files picked with Browse... are offered next to the saved configurations
+  const [browsed, setBrowsed] = useState<string[]>([]);
+  const [leftPath, setLeftPath] = useState<string>('');
+  const [rightPath, setRightPath] = useState<string>('');
+  const [leftDefines, setLeftDefines] = useState<Defines | null>(null);
+  const [rightDefines, setRightDefines] = useState<Defines | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [shownKinds, setShownKinds] = useState<Set<DiffKind>>(new Set(['onlyLeft', 'onlyRight', 'different']));
+  const [selectedMacro, setSelectedMacro] = useState<string | null>(null);
+  const [sites, setSites] = useState<SymbolReference[] | null>(null);
+
+  // Start with the active configuration against the next one
+  useEffect(() => {
+    if (leftPath || configurations.length === 0) return;
+    const active = configurations.find(c => c.name === activeConfiguration) ?? configurations[0];
+    const other = configurations.find(c => c.optPath !== active.optPath);
+    setLeftPath(active.optPath);
+    setRightPath(other?.optPath ?? '');
+  }, [configurations, activeConfiguration, leftPath]);
+
+  // A reply that arrives after the selection moved on belongs to the old path and is dropped
+  useEffect(() => {
+    setLeftDefines(null);
+    if (!leftPath) return;
+    let stale = false;
+    window.electronAPI.readDefinesFile(leftPath)
+      .then((defines) => !stale && setLeftDefines(defines))
+      .catch((err) => !stale && setError(`Failed to read ${leftPath}: ${err}`));
+    return () => { stale = true; };
+  }, [leftPath]);
+
+  useEffect(() => {
+    setRightDefines(null);
+    if (!rightPath) return;
+    let stale = false;
+    window.electronAPI.readDefinesFile(rightPath)
+      .then((defines) => !stale && setRightDefines(defines))
+      .catch((err) => !stale && setError(`Failed to read ${rightPath}: ${err}`));
+    return () => { stale = true; };
+  }, [rightPath]);
+
+  useEffect(() => {
+    setSites(null);
+    if (!selectedMacro) return;
+    let stale = false;
+    window.electronAPI.findConditionalUses(selectedMacro)
+      .then((uses) => !stale && setSites(uses))
+      .catch(() => !stale && setSites([]));
+    return () => { stale = true; };
+  }, [selectedMacro]);
+
+  const entries = useMemo(
+    () => (leftDefines && rightDefines ? diffDefines(leftDefines, rightDefines) : []),
+    [leftDefines, rightDefines]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<DiffKind, number> = { onlyLeft: 0, onlyRight: 0, different: 0, same: 0 };
+    entries.forEach((e) => { result[e.kind]++; });
+    return result;
+  }, [entries]);
+
+  const visibleEntries = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return entries.filter((e) =>
+      shownKinds.has(e.kind) &&
+      (!term ||
+        e.name.toLowerCase().includes(term) ||
+        formatValue(e.left).toLowerCase().includes(term) ||
+        formatValue(e.right).toLowerCase().includes(term))
+    );
+  }, [entries, shownKinds, search]);
+
+  const sourceLabel = (optPath: string) =>
+    configurations.find(c => c.optPath === optPath)?.name ?? fileName(optPath);
+
+  const handleSourceChange = async (value: string, setPath: (optPath: string) => void) => {
+    setError(null);
+    if (value !== BROWSE) {
+      setPath(value);
+      return;
+    }
+
+    const optPath = await window.electronAPI.chooseOptFile();
+    if (!optPath) return;
+    if (!browsed.includes(optPath) && !configurations.some(c => c.optPath === optPath)) {
+      setBrowsed([...browsed, optPath]);
+    }
+    setPath(optPath);
+  };
+
+  const toggleKind = (kind: DiffKind) => {
+    setShownKinds((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) {
+        next.delete(kind);
+      } else {
+        next.add(kind);
+      }
+      return next;
+    });
+  };
+
+  // Exports what is currently listed, grouped by kind
+  const handleExport = async () => {
+    const lines = [
+      'CFLAGS comparison',
+      `Left:  ${sourceLabel(leftPath)} (${leftPath})`,
+      `Right: ${sourceLabel(rightPath)} (${rightPath})`,
+    ];
+    for (const kind of Object.keys(KIND_LABELS) as DiffKind[]) {
+      const group = visibleEntries.filter(e => e.kind === kind);
+      if (group.length === 0) continue;
+
+      lines.push('', `${KIND_LABELS[kind]} (${group.length}):`);
+      for (const e of group) {
+        lines.push(kind === 'different'
+          ? `  ${e.name}: ${formatValue(e.left)} -> ${formatValue(e.right)}`
+          : `  ${e.name}${kind === 'onlyRight' ? formatDefine(e.right) : formatDefine(e.left)}`);
+      }
+    }
+
+    const defaultName = `cflags-${sourceLabel(leftPath)}-vs-${sourceLabel(rightPath)}.txt`.replace(/[/\\]/g, '_');
+    await window.electronAPI.exportText(defaultName, lines.join('\n') + '\n');
+  };
+
+  const renderSourceSelect = (value: string, setPath: (optPath: string) => void) => (
+    <select
+      className="flex-1 min-w-0 px-2 py-1 text-xs rounded bg-[#1e1e1e] border border-[#3e3e42] focus:outline-none focus:border-[#007acc]"
+      value={value}
+      title={value}
+      onChange={(e) => handleSourceChange(e.target.value, setPath)}
+    >
+      {!value && <option value="">Select a configuration...</option>}
+      {configurations.map((c) => (
+        <option key={c.optPath} value={c.optPath}>{c.name}</option>
+      ))}
+      {browsed.map((optPath) => (
+        <option key={optPath} value={optPath}>{optPath}</option>
+      ))}
+      <option value={BROWSE}>Browse...</option>
+    </select>
+  );
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 gap-2">
+      <div className="flex items-center gap-2 text-xs">
+        {renderSourceSelect(leftPath, setLeftPath)}
+        <span className="text-[#9e9e9e]">vs</span>
+        {renderSourceSelect(rightPath, setRightPath)}
+      </div>
+
+      <div className="flex items-center gap-2 text-xs">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Filter macros..."
+          className="flex-1 px-2 py-1 rounded bg-[#1e1e1e] border border-[#3e3e42] focus:outline-none focus:border-[#007acc]"
+        />
+        {(Object.keys(KIND_LABELS) as DiffKind[]).map((kind) => (
+          <label key={kind} className="flex items-center gap-1 cursor-pointer select-none whitespace-nowrap">
+            <input
+              type="checkbox"
+              className="accent-[#007acc]"
+              checked={shownKinds.has(kind)}
+              onChange={() => toggleKind(kind)}
+            />
+            <span className={KIND_COLORS[kind]}>{KIND_LABELS[kind]} ({counts[kind]})</span>
+          </label>
+        ))}
+        <button
+          className="px-2 py-1 border border-[#3e3e42] rounded text-[#cccccc] hover:text-white disabled:opacity-50"
+          disabled={visibleEntries.length === 0}
+          onClick={handleExport}
+        >
+          Export...
+        </button>
+      </div>
+
+      {error && <div className="text-xs text-[#f48771]">{error}</div>}
+
+      <div className="border border-[#3e3e42] rounded overflow-hidden flex-1 min-h-0 flex flex-col bg-[#1e1e1e]">
+        <div className="grid grid-cols-[1fr,1fr,1fr] text-xs bg-[#2d2d30] border-b border-[#3e3e42] px-2 py-1 font-semibold">
+          <div>Name</div>
+          <div className="truncate">{leftPath ? sourceLabel(leftPath) : 'Left'}</div>
+          <div className="truncate">{rightPath ? sourceLabel(rightPath) : 'Right'}</div>
+        </div>
+        <div className="flex-1 overflow-auto text-xs">
+          {(!leftDefines || !rightDefines) && (
+            <div className="px-2 py-2 text-[#858585]">Select two configurations to compare.</div>
+          )}
+          {leftDefines && rightDefines && visibleEntries.length === 0 && (
+            <div className="px-2 py-2 text-[#858585]">No differences match the filter.</div>
+          )}
+
+          {visibleEntries.map((e) => (
+            <div
+              key={e.name}
+              className={`grid grid-cols-[1fr,1fr,1fr] px-2 py-1 border-b border-[#2a2d2e] cursor-pointer ${
+                selectedMacro === e.name ? 'bg-[#094771]' : 'hover:bg-[#2d2d30]'
+              }`}
+              title="Show the #if lines that test this macro"
+              onClick={() => setSelectedMacro(e.name)}
+            >
+              <div className={`truncate font-mono ${KIND_COLORS[e.kind]}`}>{e.name}</div>
+              <div className="truncate font-mono text-[#dcdcdc]">{formatValue(e.left)}</div>
+              <div className="truncate font-mono text-[#dcdcdc]">{formatValue(e.right)}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {selectedMacro && (
+        <div className="border border-[#3e3e42] rounded overflow-hidden h-40 flex flex-col bg-[#1e1e1e]">
+          <div className="text-xs bg-[#2d2d30] border-b border-[#3e3e42] px-2 py-1">
+            <span className="font-semibold">#if sites testing </span>
+            <span className="font-mono text-white">{selectedMacro}</span>
+            {sites && <span className="ml-2 text-[#9e9e9e]">{sites.length} result{sites.length === 1 ? '' : 's'}</span>}
+          </div>
+          <div className="flex-1 overflow-auto text-xs">
+            {sites === null && <div className="px-2 py-1 text-[#858585]">Searching...</div>}
+            {sites?.length === 0 && (
+              <div className="px-2 py-1 text-[#858585]">No indexed #if line tests this macro.</div>
+            )}
+            {sites?.map((site) => (
+              <div
+                key={`${site.filePath}:${site.line}:${site.column}`}
+                className="flex gap-2 px-2 py-0.5 cursor-pointer hover:bg-[#2d2d30]"
+                title={site.filePath}
+                onClick={() => onNavigate(site.filePath, site.line, site.column)}
+              >
+                <span className="text-[#9e9e9e] whitespace-nowrap">{fileName(site.filePath)}:{site.line}</span>
+                <span className="truncate font-mono text-[#dcdcdc]">{site.preview}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CflagsCompare;
@@ -1,55 +1,282 @@
-import React from 'react';
+import React, { useState } from 'react';
+import { Pencil, Plus, RotateCcw, X } from 'lucide-react';
+import CflagsCompare from './CflagsCompare';
+import type { BuildConfiguration, OptFile } from '../../shared/types';
+import type { DefineOverride } from '../../shared/preprocessor';
 
 interface CflagsModalProps {
   isOpen: boolean;
+  // Defines the editor starts from: the active file's compile_commands.json flags or the .opt defines
   defines: Record<string, string | null>;
+  definesSource?: string;
+  undefines: string[];  // -U names from the .opt file; compile flags already drop theirs from defines
+  optFile: OptFile | null;
+  // What-if edits for this session, applied on top of defines in the editor
+  overrides: Record<string, DefineOverride>;
+  onOverridesChange: (overrides: Record<string, DefineOverride>) => void;
+  configurations: BuildConfiguration[];
+  activeConfiguration: string | null;
+  onNavigate: (filePath: string, line: number, column: number) => void;
   onClose: () => void;
 }
 
-function CflagsModal({ isOpen, defines, onClose }: CflagsModalProps) {
+// 'defines', 'compare', or a raw opt-file section by index ('section:2')
+type CflagsView = string;
+
+type OverrideStatus = 'added' | 'changed' | 'removed';
+
+const STATUS_STYLES: Record<OverrideStatus, string> = {
+  added: 'border-l-[#89d185] text-[#89d185]',
+  changed: 'border-l-[#cca700] text-[#cca700]',
+  removed: 'border-l-[#f48771] text-[#f48771]',
+};
+
+function formatValue(value: string | null | undefined): string {
+  return value === null || value === undefined ? '(no value)' : value;
+}
+
+function CflagsModal({
+  isOpen, defines, definesSource, undefines: loadedUndefines, optFile, overrides, onOverridesChange, configurations, activeConfiguration, onNavigate, onClose,
+}: CflagsModalProps) {
+  const [view, setView] = useState<CflagsView>('defines');
+  const [newName, setNewName] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [editing, setEditing] = useState<{ name: string; value: string } | null>(null);
+
   if (!isOpen) return null;
 
-  const entries = Object.entries(defines).sort(([a], [b]) => a.localeCompare(b));
+  const hasDefine = (name: string) => Object.prototype.hasOwnProperty.call(defines, name);
+  const names = Array.from(new Set([...Object.keys(defines), ...Object.keys(overrides)])).sort((a, b) => a.localeCompare(b));
+  const undefines = loadedUndefines.filter(name => !overrides[name]);
+  const overrideCount = Object.keys(overrides).length;
+
+  const statusOf = (name: string): OverrideStatus | null => {
+    const override = overrides[name];
+    if (!override) return null;
+    if ('removed' in override) return 'removed';
+    return hasDefine(name) ? 'changed' : 'added';
+  };
+
+  // Setting a define back to its loaded value drops the override instead
+  const setOverride = (name: string, override: DefineOverride | null) => {
+    const next = { ...overrides };
+    const unchanged = override && !('removed' in override) && hasDefine(name) && defines[name] === override.value;
+    if (!override || unchanged) {
+      delete next[name];
+    } else {
+      next[name] = override;
+    }
+    onOverridesChange(next);
+  };
+
+  // An empty value means a bare -DNAME
+  const parseValue = (text: string) => (text.trim() === '' ? null : text.trim());
+
+  const handleAdd = () => {
+    const name = newName.trim();
+    if (!/^[A-Za-z_]\w*$/.test(name)) return;
+    setOverride(name, { value: parseValue(newValue) });
+    setNewName('');
+    setNewValue('');
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    setOverride(editing.name, { value: parseValue(editing.value) });
+    setEditing(null);
+  };
+
+  const handleRemove = (name: string) => {
+    // Removing a define that only exists as an override just drops the override
+    setOverride(name, hasDefine(name) ? { removed: true } : null);
+  };
+
+  const sections = optFile?.sections ?? [];
+  const section = view.startsWith('section:') ? sections[Number(view.substring('section:'.length))] : undefined;
+
+  const tabs: Array<{ id: CflagsView; label: string }> = [
+    { id: 'defines', label: 'Defines' },
+    ...sections.map((s, i) => ({ id: `section:${i}`, label: s.name ? `[${s.name}]` : '(top)' })),
+    { id: 'compare', label: 'Compare' },
+  ];
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
       <div
-        className="bg-[#252526] border border-[#3e3e42] rounded-lg p-4 w-[520px] max-h-[70vh] flex flex-col"
+        className={`bg-[#252526] border border-[#3e3e42] rounded-lg p-4 flex flex-col ${
+          view === 'compare' ? 'w-[900px] h-[80vh]' : 'w-[520px] max-h-[70vh]'
+        }`}
         onClick={(e) => e.stopPropagation()}
       >
         <div className="flex items-center justify-between mb-3">
-          <h2 className="text-lg font-semibold">CFLAGS (from rtecdc.opt / loaded file)</h2>
-          <button
-            className="text-sm text-[#cccccc] hover:text-white px-2 py-1 border border-[#3e3e42] rounded"
-            onClick={onClose}
-          >
-            Close
-          </button>
+          <h2 className="text-lg font-semibold">
+            CFLAGS {view !== 'compare' && `(${definesSource ?? 'from rtecdc.opt / loaded file'})`}
+          </h2>
+          <div className="flex items-center gap-2">
+            {overrideCount > 0 && (
+              <button
+                className="flex items-center gap-1 text-sm text-[#cca700] hover:text-white px-2 py-1 border border-[#3e3e42] rounded"
+                title="Drop every what-if change and go back to the loaded defines"
+                onClick={() => {
+                  setEditing(null);
+                  onOverridesChange({});
+                }}
+              >
+                <RotateCcw size={14} />
+                Reset ({overrideCount})
+              </button>
+            )}
+            <button
+              className="text-sm text-[#cccccc] hover:text-white px-2 py-1 border border-[#3e3e42] rounded"
+              onClick={onClose}
+            >
+              Close
+            </button>
+          </div>
         </div>
 
-        <div className="border border-[#3e3e42] rounded overflow-hidden flex-1 flex flex-col bg-[#1e1e1e]">
-          <div className="grid grid-cols-[1fr,1.2fr] text-xs bg-[#2d2d30] border-b border-[#3e3e42] px-2 py-1 font-semibold">
-            <div>Name</div>
-            <div>Value</div>
-          </div>
-          <div className="flex-1 overflow-auto text-xs">
-            {entries.length === 0 && (
-              <div className="px-2 py-2 text-[#858585]">No CFLAGS loaded.</div>
-            )}
+        <div className="flex text-xs mb-3 border-b border-[#3e3e42] overflow-x-auto">
+          {tabs.map((tab) => (
+            <button
+              key={tab.id}
+              className={`px-3 py-1 border-b-2 whitespace-nowrap ${
+                view === tab.id
+                  ? 'border-[#007acc] text-white'
+                  : 'border-transparent text-[#9e9e9e] hover:text-[#cccccc]'
+              }`}
+              onClick={() => setView(tab.id)}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
 
-            {entries.map(([name, value]) => (
-              <div
-                key={name}
-                className="grid grid-cols-[1fr,1.2fr] px-2 py-1 border-b border-[#2a2d2e] hover:bg-[#2d2d30]"
+        {view === 'compare' && (
+          <CflagsCompare
+            configurations={configurations}
+            activeConfiguration={activeConfiguration}
+            onNavigate={onNavigate}
+          />
+        )}
+
+        {view === 'defines' && (
+          <div className="border border-[#3e3e42] rounded overflow-hidden flex-1 flex flex-col bg-[#1e1e1e]">
+            <div className="grid grid-cols-[1fr,1.2fr,3rem] text-xs bg-[#2d2d30] border-b border-[#3e3e42] px-2 py-1 font-semibold">
+              <div>Name</div>
+              <div>Value</div>
+              <div />
+            </div>
+            {/* What-if: add or change a define for this session only */}
+            <div className="grid grid-cols-[1fr,1.2fr,3rem] gap-1 px-2 py-1 border-b border-[#3e3e42] text-xs">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="NAME"
+                className="min-w-0 px-1 py-0.5 font-mono rounded bg-[#252526] border border-[#3e3e42] focus:outline-none focus:border-[#007acc]"
+              />
+              <input
+                type="text"
+                value={newValue}
+                onChange={(e) => setNewValue(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="value (empty for -DNAME)"
+                className="min-w-0 px-1 py-0.5 font-mono rounded bg-[#252526] border border-[#3e3e42] focus:outline-none focus:border-[#007acc]"
+              />
+              <button
+                className="flex items-center justify-center rounded hover:bg-[#3e3e42] disabled:opacity-50"
+                disabled={!/^[A-Za-z_]\w*$/.test(newName.trim())}
+                title="Add or override this define for the session"
+                onClick={handleAdd}
               >
-                <div className="truncate font-mono text-[#dcdcdc]">{name}</div>
-                <div className="truncate font-mono text-[#9e9e9e]">
-                  {value === null ? '(no value)' : value}
+                <Plus size={14} />
+              </button>
+            </div>
+            <div className="flex-1 overflow-auto text-xs">
+              {names.length === 0 && undefines.length === 0 && (
+                <div className="px-2 py-2 text-[#858585]">No CFLAGS loaded.</div>
+              )}
+
+              {names.map((name) => {
+                const status = statusOf(name);
+                const override = overrides[name];
+                const value = override && !('removed' in override) ? override.value : defines[name];
+                return (
+                  <div
+                    key={name}
+                    className={`group grid grid-cols-[1fr,1.2fr,3rem] px-2 py-1 border-b border-[#2a2d2e] border-l-2 hover:bg-[#2d2d30] ${
+                      status ? STATUS_STYLES[status] : 'border-l-transparent'
+                    }`}
+                    title={status === 'changed' ? `Loaded value: ${formatValue(defines[name])}` : undefined}
+                  >
+                    <div className={`truncate font-mono ${status ? '' : 'text-[#dcdcdc]'} ${status === 'removed' ? 'line-through' : ''}`}>
+                      {name}
+                      {status && <span className="ml-1 text-[10px] font-sans">({status})</span>}
+                    </div>
+                    {editing?.name === name ? (
+                      <input
+                        autoFocus
+                        type="text"
+                        value={editing.value}
+                        onChange={(e) => setEditing({ name, value: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitEdit();
+                          if (e.key === 'Escape') setEditing(null);
+                        }}
+                        onBlur={commitEdit}
+                        className="min-w-0 px-1 font-mono rounded bg-[#252526] border border-[#007acc] focus:outline-none text-white"
+                      />
+                    ) : (
+                      <div
+                        className={`truncate font-mono ${status === 'removed' ? 'line-through text-[#858585]' : 'text-[#9e9e9e]'}`}
+                        onDoubleClick={() => status !== 'removed' && setEditing({ name, value: value ?? '' })}
+                      >
+                        {formatValue(value)}
+                      </div>
+                    )}
+                    <div className="flex justify-end gap-0.5 text-[#cccccc] invisible group-hover:visible">
+                      {status !== 'removed' && (
+                        <button className="rounded hover:bg-[#3e3e42] p-0.5" title="Change value" onClick={() => setEditing({ name, value: value ?? '' })}>
+                          <Pencil size={12} />
+                        </button>
+                      )}
+                      {status !== 'removed' && (
+                        <button className="rounded hover:bg-[#3e3e42] p-0.5" title="Undefine" onClick={() => handleRemove(name)}>
+                          <X size={12} />
+                        </button>
+                      )}
+                      {status && (
+                        <button className="rounded hover:bg-[#3e3e42] p-0.5" title="Revert to the loaded value" onClick={() => setOverride(name, null)}>
+                          <RotateCcw size={12} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {undefines.map((name) => (
+                <div
+                  key={`-U${name}`}
+                  className="grid grid-cols-[1fr,1.2fr,3rem] px-2 py-1 border-b border-[#2a2d2e] hover:bg-[#2d2d30]"
+                >
+                  <div className="truncate font-mono text-[#858585] line-through">{name}</div>
+                  <div className="truncate font-mono text-[#f48771]">(undefined by -U)</div>
+                  <div />
                 </div>
-              </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {section && (
+          <div className="border border-[#3e3e42] rounded overflow-auto flex-1 bg-[#1e1e1e] text-xs font-mono p-2">
+            {section.lines.map((line, index) => (
+              <div key={index} className="whitespace-pre text-[#dcdcdc]">{line || ' '}</div>
             ))}
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
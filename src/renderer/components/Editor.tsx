@@ -2,6 +2,8 @@ import { X } from 'lucide-react';
 import MonacoEditor, { OnMount } from '@monaco-editor/react';
 import * as monaco from 'monaco-editor';
 import { useEffect, useRef, useState } from 'react';
+import type { DefinitionRequest, Symbol } from '../../shared/types';
+import { findInactiveLines } from '../../shared/preprocessor';
 
 interface OpenFile {
   path: string;
@@ -29,24 +31,102 @@ interface EditorProps {
     targetLine: number,
     targetColumn: number
   ) => void;
+  onFindReferences: (symbolName: string, sourceFilePath: string, sourceLine: number, sourceColumn: number) => void;
+  onShowCallHierarchy: (request: DefinitionRequest, sourceColumn: number) => void;
+  onShowIncludeHierarchy: (filePath: string) => void;
+  externalChange?: 'changed' | 'deleted';
+  onReloadFile: () => void;
+  onDismissExternalChange: () => void;
   goToLocation: Location | null;
   defines: Record<string, string | null>;
+  // Where the defines come from, shown in the #if hover (default: rtecdc.opt [CFLAGS_sort])
+  definesSource?: string;
 }
 
-function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFile, onGoToDefinition, goToLocation, defines }: EditorProps) {
+// Lookup request for the word at a position, including a "Qualifier::" written in front of it
+function buildDefinitionRequest(
+  model: monaco.editor.ITextModel,
+  position: monaco.IPosition,
+  word: monaco.editor.IWordAtPosition,
+  filePath: string,
+): DefinitionRequest {
+  const before = model.getLineContent(position.lineNumber).substring(0, word.startColumn - 1);
+  // C++ uses ns::Class::name, Python uses module.attr
+  const qualifier = model.getLanguageId() === 'python'
+    ? before.match(/((?:\w+\s*\.\s*)*\w+)\s*\.\s*$/)
+    : before.match(/((?:\w+\s*::\s*)*\w+)\s*::\s*$/);
+
+  return {
+    symbolName: word.word,
+    currentFilePath: filePath,
+    line: position.lineNumber,
+    qualifier: qualifier ? qualifier[1].replace(/\s+/g, '') : undefined,
+  };
+}
+
+// The header named by an #include line, when the position is on its "..." or <...> part
+function includeAtPosition(
+  model: monaco.editor.ITextModel,
+  position: monaco.IPosition,
+): { header: string; isSystem: boolean } | null {
+  const match = model.getLineContent(position.lineNumber).match(/^(\s*#\s*include\s*)(["<])([^">]+)([">])/);
+  if (!match) return null;
+
+  const start = match[1].length + 1;
+  const end = start + match[0].length - match[1].length;
+  if (position.column < start || position.column > end) return null;
+
+  return { header: match[3].trim(), isSystem: match[2] === '<' };
+}
+
+function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFile, onGoToDefinition, onFindReferences, onShowCallHierarchy, onShowIncludeHierarchy, goToLocation, defines, definesSource, externalChange, onReloadFile, onDismissExternalChange }: EditorProps) {
   const editorRef = useRef<monaco.editor.IStandaloneCodeEditor | null>(null);
+  // Actions and mouse handlers are registered once on mount; they read the current file from here
+  const activeFileRef = useRef<OpenFile | null>(null);
+  activeFileRef.current = activeFile;
   const definesRef = useRef<Record<string, string | null>>({});
   definesRef.current = defines;
+  const definesSourceRef = useRef<string | undefined>(undefined);
+  definesSourceRef.current = definesSource;
   const ifdefDecorationsRef = useRef<string[]>([]);
   const monacoRef = useRef<typeof monaco | null>(null);
   const [foldInactive, setFoldInactive] = useState(false);
   const foldInactiveRef = useRef(false);
   foldInactiveRef.current = foldInactive;
+  // Shown when navigation lands on a symbol compiled out under the loaded CFLAGS
+  const [navigationNotice, setNavigationNotice] = useState<string | null>(null);
+  const noticeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const getFileName = (path: string) => {
     return path.split(/[\\/]/).pop() || path;
   };
 
+  // Open the header of an #include line; returns false when it cannot be found
+  const openInclude = async (include: { header: string; isSystem: boolean }, source: monaco.IPosition) => {
+    const file = activeFileRef.current;
+    if (!file) return false;
+
+    const headerPath = await window.electronAPI.resolveInclude(include.header, file.path, include.isSystem);
+    if (!headerPath) return false;
+
+    onGoToDefinition(file.path, source.lineNumber, source.column, headerPath, 1, 1);
+    return true;
+  };
+
+  // Every candidate is compiled out when the best-ranked one is (active ones rank first)
+  const noteCompiledOut = (target: Symbol) => {
+    if (noticeTimerRef.current) clearTimeout(noticeTimerRef.current);
+    if (target.active !== false) {
+      setNavigationNotice(null);
+      return;
+    }
+
+    setNavigationNotice(
+      `${target.name} (${getFileName(target.filePath)}:${target.line}) is compiled out under the loaded CFLAGS: #if ${target.condition}`
+    );
+    noticeTimerRef.current = setTimeout(() => setNavigationNotice(null), 6000);
+  };
+
   const handleEditorDidMount: OnMount = (editor, monacoInstance) => {
     editorRef.current = editor;
     monacoRef.current = monacoInstance as typeof monaco;
@@ -63,31 +143,40 @@ function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFil
       contextMenuOrder: 1.5,
       run: async (ed) => {
         const position = ed.getPosition();
-        if (!position || !activeFile) return;
+        const file = activeFileRef.current;
+        if (!position || !file) return;
 
         const model = ed.getModel();
         if (!model) return;
 
+        // On an #include line, open the header instead
+        const include = includeAtPosition(model, position);
+        if (include) {
+          await openInclude(include, position);
+          return;
+        }
+
         // Get word at cursor position
         const word = model.getWordAtPosition(position);
         if (!word) return;
 
-        const symbolName = word.word;
-
-        // Query backend for definition
-        const definitions = await window.electronAPI.findDefinition(symbolName);
+        // Query backend for definition, ranked by the class/namespace around the cursor
+        const definitions = await window.electronAPI.findDefinition(
+          buildDefinitionRequest(model, position, word, file.path)
+        );
 
         if (definitions.length === 0) {
           // Show info message
           return;
         }
 
-        // If multiple definitions, use the first one (can be enhanced later)
+        // Definitions with a body are ranked ahead of prototypes by the backend
         const definition = definitions[0];
-        
+        noteCompiledOut(definition);
+
         // Navigate to definition (record source and target locations)
         onGoToDefinition(
-          activeFile.path,
+          file.path,
           position.lineNumber,
           position.column,
           definition.filePath,
@@ -97,9 +186,114 @@ function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFil
       },
     });
 
-    // Also handle Alt/Option + Click for Go to Definition
+    // Go to Declaration: jump to the prototype / extern declaration instead of the body
+    editor.addAction({
+      id: 'go-to-declaration',
+      label: 'Go to Declaration',
+      keybindings: [monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.F12],
+      contextMenuGroupId: 'navigation',
+      contextMenuOrder: 1.55,
+      run: async (ed) => {
+        const position = ed.getPosition();
+        const file = activeFileRef.current;
+        if (!position || !file) return;
+
+        const model = ed.getModel();
+        if (!model) return;
+
+        const word = model.getWordAtPosition(position);
+        if (!word) return;
+
+        const declarations = await window.electronAPI.findDeclaration(
+          buildDefinitionRequest(model, position, word, file.path)
+        );
+        if (declarations.length === 0) return;
+
+        const declaration = declarations[0];
+        noteCompiledOut(declaration);
+        onGoToDefinition(
+          file.path,
+          position.lineNumber,
+          position.column,
+          declaration.filePath,
+          declaration.line,
+          declaration.column
+        );
+      },
+    });
+
+    // Find All References: list every occurrence of the identifier at the cursor
+    editor.addAction({
+      id: 'find-all-references',
+      label: 'Find All References',
+      keybindings: [monaco.KeyMod.Shift | monaco.KeyCode.F12],
+      contextMenuGroupId: 'navigation',
+      contextMenuOrder: 1.6,
+      run: (ed) => {
+        const position = ed.getPosition();
+        const file = activeFileRef.current;
+        if (!position || !file) return;
+
+        const model = ed.getModel();
+        if (!model) return;
+
+        const word = model.getWordAtPosition(position);
+        if (!word) return;
+
+        onFindReferences(word.word, file.path, position.lineNumber, position.column);
+      },
+    });
+
+    // Show Call Hierarchy: callers and callees of the function at the cursor
+    editor.addAction({
+      id: 'show-call-hierarchy',
+      label: 'Show Call Hierarchy',
+      keybindings: [monaco.KeyMod.Shift | monaco.KeyMod.Alt | monaco.KeyCode.KeyH],
+      contextMenuGroupId: 'navigation',
+      contextMenuOrder: 1.7,
+      run: (ed) => {
+        const position = ed.getPosition();
+        const file = activeFileRef.current;
+        if (!position || !file) return;
+
+        const model = ed.getModel();
+        if (!model) return;
+
+        const word = model.getWordAtPosition(position);
+        if (!word) return;
+
+        onShowCallHierarchy(buildDefinitionRequest(model, position, word, file.path), position.column);
+      },
+    });
+
+    // Show Includes / Included By for the current file
+    editor.addAction({
+      id: 'show-include-hierarchy',
+      label: 'Show Includes / Included By',
+      contextMenuGroupId: 'navigation',
+      contextMenuOrder: 1.8,
+      run: () => {
+        if (activeFileRef.current) {
+          onShowIncludeHierarchy(activeFileRef.current.path);
+        }
+      },
+    });
+
+    // Also handle Alt/Option + Click for Go to Definition, and Ctrl/Cmd + Click on an #include
     editor.onMouseDown((e) => {
-      if (e.event.altKey && e.target.position && activeFile) {
+      if ((e.event.altKey || e.event.ctrlKey || e.event.metaKey) && e.target.position && activeFileRef.current) {
+        const model = editor.getModel();
+        if (!model) return;
+
+        const include = includeAtPosition(model, e.target.position);
+        if (include) {
+          openInclude(include, e.target.position);
+          return;
+        }
+      }
+
+      const file = activeFileRef.current;
+      if (e.event.altKey && e.target.position && file) {
         const model = editor.getModel();
         if (!model) return;
 
@@ -108,11 +302,13 @@ function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFil
 
         const sourcePosition = e.target.position;
 
-        window.electronAPI.findDefinition(word.word).then((definitions) => {
+        const request = buildDefinitionRequest(model, sourcePosition, word, file.path);
+        window.electronAPI.findDefinition(request).then((definitions) => {
           if (definitions.length > 0) {
             const definition = definitions[0];
+            noteCompiledOut(definition);
             onGoToDefinition(
-              activeFile.path,
+              file.path,
               sourcePosition.lineNumber,
               sourcePosition.column,
               definition.filePath,
@@ -131,7 +327,7 @@ function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFil
         const trimmed = lineContent.trimStart();
 
         if (!trimmed.startsWith('#')) return null;
-        if (!/^#\s*(if|ifdef|ifndef)/.test(trimmed)) return null;
+        if (!/^#\s*(if|ifdef|ifndef|elif)/.test(trimmed)) return null;
 
         const word = model.getWordAtPosition(position);
         if (!word) return null;
@@ -152,7 +348,7 @@ function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFil
 \`${value}\``;
           }
         } else {
-          status = `**${name}** is **NOT defined** in rtecdc.opt [CFLAGS_sort]`;
+          status = `**${name}** is **NOT defined** in ${definesSourceRef.current ?? 'rtecdc.opt [CFLAGS_sort]'}`;
         }
 
         return {
@@ -190,7 +386,6 @@ function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFil
     if (!model) return;
 
     const lineCount = model.getLineCount();
-    const isDefined = (name: string) => Object.prototype.hasOwnProperty.call(definesMap, name);
 
     console.log('[ifdef] updateIfdefDecorations START', {
       definesKeys: Object.keys(definesMap),
@@ -198,132 +393,8 @@ function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFil
       foldInactiveBlocks,
     });
 
-    // Block-based approach: find all ifdef blocks and mark entire ranges as active/inactive
-    interface Block {
-      startLine: number; // line of #ifdef/#ifndef/#if
-      endLine: number;   // line of #endif
-      isActive: boolean; // whether this block is active
-      contentStart: number; // first line of content (startLine + 1)
-      contentEnd: number;   // last line of content (endLine - 1)
-    }
-
-    const blocks: Block[] = [];
-    const stack: Array<{ startLine: number; isActive: boolean }> = [];
-
-    // First pass: identify all blocks
-    for (let lineNumber = 1; lineNumber <= lineCount; lineNumber++) {
-      const lineContent = model.getLineContent(lineNumber);
-      const trimmed = lineContent.trimStart();
-
-      // Debug: log all lines starting with #
-      if (trimmed.startsWith('#')) {
-        if (trimmed.includes('endif')) {
-          console.log('[ifdef] found endif line', { lineNumber, trimmed, stackDepth: stack.length });
-        }
-      }
-
-      if (/^#\s*endif\b/.test(trimmed)) {
-        if (stack.length > 0) {
-          const block = stack.pop()!;
-          blocks.push({
-            startLine: block.startLine,
-            endLine: lineNumber,
-            isActive: block.isActive,
-            contentStart: block.startLine + 1,
-            contentEnd: lineNumber - 1,
-          });
-          console.log('[ifdef] block closed', {
-            startLine: block.startLine,
-            endLine: lineNumber,
-            isActive: block.isActive,
-          });
-        } else {
-          console.log('[ifdef] endif but stack empty!', { lineNumber, trimmed });
-        }
-        continue;
-      }
-
-      if (/^#\s*else\b/.test(trimmed)) {
-        // For simplicity, treat #else as ending current block and starting inverted one
-        if (stack.length > 0) {
-          const prev = stack.pop()!;
-          // Close previous branch
-          blocks.push({
-            startLine: prev.startLine,
-            endLine: lineNumber - 1,
-            isActive: prev.isActive,
-            contentStart: prev.startLine + 1,
-            contentEnd: lineNumber - 1,
-          });
-          // Start else branch with inverted condition
-          stack.push({
-            startLine: lineNumber,
-            isActive: !prev.isActive,
-          });
-          console.log('[ifdef] #else branch', { lineNumber, newActive: !prev.isActive });
-        }
-        continue;
-      }
-
-      if (/^#\s*if\b/.test(trimmed) || /^#\s*ifdef\b/.test(trimmed) || /^#\s*ifndef\b/.test(trimmed)) {
-        // Determine if parent context is active
-        const parentActive = stack.length === 0 || stack.every(s => s.isActive);
-        let cond = true;
-
-        // #ifdef NAME
-        let m = trimmed.match(/^#\s*ifdef\b\s+([A-Za-z_][A-Za-z0-9_]*)/);
-        if (m) {
-          cond = isDefined(m[1]);
-        } else {
-          // #ifndef NAME
-          m = trimmed.match(/^#\s*ifndef\b\s+([A-Za-z_][A-Za-z0-9_]*)/);
-          if (m) {
-            cond = !isDefined(m[1]);
-          } else {
-            // #if defined(NAME) or #if !defined(NAME)
-            m = trimmed.match(/^#\s*if\b\s+defined\s*\(?\s*([A-Za-z_][A-Za-z0-9_]*)\s*\)?/);
-            if (m) {
-              cond = isDefined(m[1]);
-            } else {
-              m = trimmed.match(/^#\s*if\b\s+!defined\s*\(?\s*([A-Za-z_][A-Za-z0-9_]*)\s*\)?/);
-              if (m) {
-                cond = !isDefined(m[1]);
-              } else {
-                // Fallback: assume active
-                cond = true;
-              }
-            }
-          }
-        }
-
-        const isActive = parentActive && cond;
-        stack.push({ startLine: lineNumber, isActive });
-        console.log('[ifdef] block opened', {
-          lineNumber,
-          trimmed,
-          cond,
-          parentActive,
-          isActive,
-        });
-      }
-    }
-
-    console.log('[ifdef] First pass complete. Total blocks found:', blocks.length);
-    console.log('[ifdef] All blocks:', blocks);
-
-    // Second pass: mark all lines in inactive blocks
-    const inactiveLines: boolean[] = new Array(lineCount + 1).fill(false);
-    for (const block of blocks) {
-      if (!block.isActive && block.contentStart <= block.contentEnd) {
-        for (let line = block.contentStart; line <= block.contentEnd; line++) {
-          inactiveLines[line] = true;
-        }
-        console.log('[ifdef] marking block inactive', {
-          contentStart: block.contentStart,
-          contentEnd: block.contentEnd,
-        });
-      }
-    }
+    // #if/#ifdef/#ifndef/#elif/#else chains evaluated against the current defines
+    const inactiveLines = findInactiveLines(model.getLinesContent(), definesMap);
 
     // Create decorations for all inactive lines
     const decorations: monaco.editor.IModelDeltaDecoration[] = [];
@@ -342,7 +413,7 @@ function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFil
       }
     }
 
-    console.log('[ifdef] Second pass complete. Total inactive lines:', decorations.length);
+    console.log('[ifdef] Total inactive lines:', decorations.length);
     console.log('[ifdef] Sample inactive lines:', Array.from({length: Math.min(10, decorations.length)}, (_, i) => decorations[i]));
     decoRef.current = editor.deltaDecorations(decoRef.current, decorations);
 
@@ -447,7 +518,29 @@ function Editor({ openFiles, activeFileIndex, onTabChange, onTabClose, activeFil
 
       {/* Editor */}
       <div className="flex-1 flex flex-col">
-        <div className="flex justify-end items-center px-2 py-1 text-xs text-[#cccccc] bg-[#252526] border-b border-[#3e3e42]">
+        {externalChange && (
+          <div className="flex items-center gap-2 px-2 py-1 text-xs bg-[#3c3c1e] text-[#e5e5b0] border-b border-[#3e3e42]">
+            <span className="flex-1">
+              {externalChange === 'changed'
+                ? 'This file has been changed on disk.'
+                : 'This file has been deleted on disk.'}
+            </span>
+            {externalChange === 'changed' && (
+              <button className="px-2 py-0.5 rounded bg-[#007acc] text-white hover:bg-[#1a8ad4]" onClick={onReloadFile}>
+                Reload
+              </button>
+            )}
+            <button className="px-2 py-0.5 rounded hover:bg-[#3e3e42]" onClick={onDismissExternalChange}>
+              Dismiss
+            </button>
+          </div>
+        )}
+        <div className="flex justify-end items-center gap-2 px-2 py-1 text-xs text-[#cccccc] bg-[#252526] border-b border-[#3e3e42]">
+          {navigationNotice && (
+            <span className="flex-1 truncate text-[#e5e5b0]" title={navigationNotice}>
+              {navigationNotice}
+            </span>
+          )}
           <label className="flex items-center gap-1 cursor-pointer select-none">
             <input
               type="checkbox"
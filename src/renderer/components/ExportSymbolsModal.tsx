@@ -0,0 +1,174 @@
+import { useMemo, useState } from 'react';
+import type { Symbol, SymbolExportFormat } from '../../shared/types';
+
+interface ExportSymbolsModalProps {
+  isOpen: boolean;
+  symbols: Symbol[];
+  rootPath: string | null;
+  onClose: () => void;
+}
+
+const FORMATS: Array<{ id: SymbolExportFormat; label: string }> = [
+  { id: 'ctags', label: 'ctags (tags)' },
+  { id: 'json', label: 'JSON' },
+  { id: 'csv', label: 'CSV' },
+];
+
+const KIND_ORDER: Symbol['kind'][] = [
+  'function', 'method', 'class', 'struct', 'union', 'enum', 'enumerator', 'field', 'typedef', 'macro', 'variable',
+  'import',
+];
+
+function parentDirectory(filePath: string): string {
+  return filePath.substring(0, Math.max(filePath.lastIndexOf('/'), filePath.lastIndexOf('\\')));
+}
+
+// A directory contains its own files and everything below it
+function isInDirectory(filePath: string, directory: string): boolean {
+  return !directory || (filePath.startsWith(directory) && (filePath[directory.length] === '/' || filePath[directory.length] === '\\'));
+}
+
+function ExportSymbolsModal({ isOpen, symbols, rootPath, onClose }: ExportSymbolsModalProps) {
+  const [format, setFormat] = useState<SymbolExportFormat>('ctags');
+  // Kinds left out of the export; everything is selected at first
+  const [excludedKinds, setExcludedKinds] = useState<Set<Symbol['kind']>>(new Set());
+  const [directory, setDirectory] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+
+  // Every directory holding symbols, with the directories between it and the root
+  const directories = useMemo(() => {
+    const found = new Set<string>();
+    for (const symbol of symbols) {
+      let dir = parentDirectory(symbol.filePath);
+      while (dir && !found.has(dir) && (!rootPath || (dir !== rootPath && isInDirectory(dir, rootPath)))) {
+        found.add(dir);
+        dir = parentDirectory(dir);
+      }
+    }
+    return Array.from(found).sort((a, b) => a.localeCompare(b));
+  }, [symbols, rootPath]);
+
+  const inDirectory = useMemo(
+    () => symbols.filter(symbol => isInDirectory(symbol.filePath, directory)),
+    [symbols, directory]
+  );
+
+  const kindCounts = useMemo(() => {
+    const counts = new Map<Symbol['kind'], number>();
+    inDirectory.forEach(symbol => counts.set(symbol.kind, (counts.get(symbol.kind) ?? 0) + 1));
+    return counts;
+  }, [inDirectory]);
+
+  if (!isOpen) return null;
+
+  const kinds = KIND_ORDER.filter(kind => symbols.some(symbol => symbol.kind === kind));
+  const selectedKinds = kinds.filter(kind => !excludedKinds.has(kind));
+  const count = selectedKinds.reduce((sum, kind) => sum + (kindCounts.get(kind) ?? 0), 0);
+
+  const toggleKind = (kind: Symbol['kind']) => {
+    const next = new Set(excludedKinds);
+    if (next.has(kind)) {
+      next.delete(kind);
+    } else {
+      next.add(kind);
+    }
+    setExcludedKinds(next);
+  };
+
+  const relative = (dir: string) => (rootPath && dir.startsWith(rootPath) ? dir.substring(rootPath.length + 1) : dir);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const exported = await window.electronAPI.exportSymbols({ format, kinds: selectedKinds, directory });
+      if (exported) {
+        setResult(`Exported ${exported.count} symbol(s) to ${exported.filePath}`);
+      }
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleClose = () => {
+    setResult(null);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={handleClose}>
+      <div
+        className="bg-[#252526] border border-[#3e3e42] rounded-lg p-4 w-[480px] max-h-[70vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold mb-3">Export Symbols</h2>
+
+        <div className="text-xs space-y-3 overflow-auto">
+          <div className="flex items-center gap-2">
+            <span className="w-16 text-[#9e9e9e]">Format</span>
+            {FORMATS.map((f) => (
+              <label key={f.id} className="flex items-center gap-1 mr-2 cursor-pointer select-none">
+                <input type="radio" className="accent-[#007acc]" checked={format === f.id} onChange={() => setFormat(f.id)} />
+                {f.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="w-16 text-[#9e9e9e]">Directory</span>
+            <select
+              className="flex-1 min-w-0 px-2 py-1 rounded bg-[#1e1e1e] border border-[#3e3e42] focus:outline-none focus:border-[#007acc]"
+              value={directory}
+              onChange={(e) => setDirectory(e.target.value)}
+            >
+              <option value="">(whole project)</option>
+              {directories.map((dir) => (
+                <option key={dir} value={dir}>{relative(dir)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <span className="w-16 text-[#9e9e9e]">Kinds</span>
+              <button className="px-1 border border-[#3e3e42] rounded text-[#cccccc] hover:text-white" onClick={() => setExcludedKinds(new Set())}>All</button>
+              <button className="px-1 border border-[#3e3e42] rounded text-[#cccccc] hover:text-white" onClick={() => setExcludedKinds(new Set(kinds))}>None</button>
+            </div>
+            <div className="grid grid-cols-3 gap-1 pl-[4.5rem]">
+              {kinds.map((kind) => (
+                <label key={kind} className="flex items-center gap-1 cursor-pointer select-none">
+                  <input type="checkbox" className="accent-[#007acc]" checked={!excludedKinds.has(kind)} onChange={() => toggleKind(kind)} />
+                  {kind}
+                  <span className="text-[#858585]">({kindCounts.get(kind) ?? 0})</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {result && <div className="text-xs text-[#89d185] mt-3 break-all">{result}</div>}
+
+        <div className="flex items-center justify-between mt-4">
+          <span className="text-xs text-[#9e9e9e]">{count} symbol(s) selected</span>
+          <div className="flex gap-2">
+            <button
+              className="text-sm text-[#cccccc] hover:text-white px-2 py-1 border border-[#3e3e42] rounded"
+              onClick={handleClose}
+            >
+              Close
+            </button>
+            <button
+              className="text-sm px-3 py-1 rounded bg-[#007acc] text-white hover:bg-[#1a8ad4] disabled:opacity-50"
+              disabled={count === 0 || exporting}
+              onClick={handleExport}
+            >
+              Export...
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ExportSymbolsModal;
@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { ChevronRight, ChevronDown, X } from 'lucide-react';
+import type { IncludeDirective } from '../../shared/types';
+
+type IncludeDirection = 'includes' | 'includedBy';
+
+interface IncludeHierarchyPanelProps {
+  filePath: string;
+  onNavigate: (filePath: string, line: number, column: number) => void;
+  onClose: () => void;
+}
+
+interface IncludeNodeProps {
+  filePath: string;
+  // The #include that links this node to its parent (none for the root)
+  directive?: IncludeDirective;
+  direction: IncludeDirection;
+  ancestors: string[];
+  depth: number;
+  initiallyExpanded?: boolean;
+  onNavigate: (filePath: string, line: number, column: number) => void;
+}
+
+// Source files are the translation units a header change ends up recompiling
+const TRANSLATION_UNIT_PATTERN = /\.(c|cc|cpp|cxx)$/i;
+
+function fileName(filePath: string): string {
+  return filePath.split(/[/\\]/).pop() || filePath;
+}
+
+function IncludeNode({ filePath, directive, direction, ancestors, depth, initiallyExpanded = false, onNavigate }: IncludeNodeProps) {
+  const [expanded, setExpanded] = useState(initiallyExpanded);
+  const [children, setChildren] = useState<IncludeDirective[] | null>(null);
+
+  // Headers that could not be resolved have nothing to expand; include cycles stop here
+  const unresolved = direction === 'includes' && directive !== undefined && !directive.resolvedPath;
+  const recursive = ancestors.includes(filePath);
+  const expandable = !unresolved && !recursive;
+
+  useEffect(() => {
+    if (!expanded || children !== null) return;
+    const request = direction === 'includes'
+      ? window.electronAPI.getIncludes(filePath)
+      : window.electronAPI.getIncludedBy(filePath);
+    request.then(setChildren).catch(() => setChildren([]));
+  }, [expanded, children, direction, filePath]);
+
+  const handleDoubleClick = () => {
+    if (!directive) {
+      onNavigate(filePath, 1, 1);
+    } else if (direction === 'includedBy' || unresolved) {
+      // Show the #include line itself
+      onNavigate(directive.filePath, directive.line, directive.column);
+    } else {
+      onNavigate(filePath, 1, 1);
+    }
+  };
+
+  const label = unresolved ? directive!.header : fileName(filePath);
+  const childAncestors = [...ancestors, filePath];
+
+  return (
+    <div>
+      <div
+        className="flex items-center gap-1 pr-2 py-0.5 cursor-default hover:bg-[#3e3e42]"
+        style={{ paddingLeft: `${depth * 12 + 4}px` }}
+        onDoubleClick={handleDoubleClick}
+        title={unresolved ? `${directive!.header} (not found)` : filePath}
+      >
+        <span
+          className="flex-shrink-0 w-3.5 cursor-pointer"
+          onClick={() => expandable && setExpanded(!expanded)}
+        >
+          {expandable && (expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />)}
+        </span>
+        <span className={`truncate ${unresolved ? 'text-[#858585]' : 'text-white'}`}>
+          {directive?.isSystem ? `<${label}>` : label}
+        </span>
+        {recursive && <span className="text-[10px] text-[#9e9e9e] flex-shrink-0">(recursive)</span>}
+        {direction === 'includedBy' && TRANSLATION_UNIT_PATTERN.test(filePath) && (
+          <span className="text-[10px] px-1 rounded bg-[#3e3e42] text-[#9e9e9e] flex-shrink-0">TU</span>
+        )}
+        {directive && direction === 'includedBy' && (
+          <span className="ml-auto text-[10px] text-[#9e9e9e] flex-shrink-0">line {directive.line}</span>
+        )}
+      </div>
+
+      {expanded && children === null && (
+        <div className="py-0.5 text-[#858585]" style={{ paddingLeft: `${(depth + 1) * 12 + 22}px` }}>
+          Loading...
+        </div>
+      )}
+
+      {expanded && children !== null && children.length === 0 && depth === 0 && (
+        <div className="py-0.5 text-[#858585]" style={{ paddingLeft: `${(depth + 1) * 12 + 22}px` }}>
+          {direction === 'includes' ? 'No #include directives' : 'Not included by any indexed file'}
+        </div>
+      )}
+
+      {expanded && children?.map((child) => {
+        const childPath = direction === 'includes' ? child.resolvedPath || child.header : child.filePath;
+        return (
+          <IncludeNode
+            key={`${child.filePath}:${child.line}`}
+            filePath={childPath}
+            directive={child}
+            direction={direction}
+            ancestors={childAncestors}
+            depth={depth + 1}
+            onNavigate={onNavigate}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+function IncludeHierarchyPanel({ filePath, onNavigate, onClose }: IncludeHierarchyPanelProps) {
+  const [direction, setDirection] = useState<IncludeDirection>('includes');
+
+  return (
+    <div className="w-72 border-l border-[#3e3e42] bg-[#252526] flex flex-col">
+      <div className="border-b border-[#3e3e42]">
+        <div className="flex items-center justify-between px-2 py-1 text-xs">
+          <span className="font-semibold uppercase text-[#cccccc]">Include Hierarchy</span>
+          <button
+            className="hover:bg-[#3e3e42] rounded p-0.5"
+            onClick={onClose}
+            title="Close"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <div className="flex text-xs border-t border-[#3e3e42]">
+          {(['includes', 'includedBy'] as IncludeDirection[]).map((d) => (
+            <button
+              key={d}
+              className={`flex-1 px-2 py-1 border-b-2 ${
+                direction === d
+                  ? 'border-[#007acc] text-white'
+                  : 'border-transparent text-[#9e9e9e] hover:text-[#cccccc]'
+              }`}
+              onClick={() => setDirection(d)}
+            >
+              {d === 'includes' ? 'Includes' : 'Included By'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto text-xs py-1">
+        {/* Remount the tree when the file or direction changes so cached children are dropped */}
+        <IncludeNode
+          key={`${direction}:${filePath}`}
+          filePath={filePath}
+          direction={direction}
+          ancestors={[]}
+          depth={0}
+          initiallyExpanded
+          onNavigate={onNavigate}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default IncludeHierarchyPanel;
@@ -0,0 +1,99 @@
+import { useMemo, useState } from 'react';
+import { ChevronRight, ChevronDown, X } from 'lucide-react';
+import type { SymbolReference } from '../../shared/types';
+
+interface ReferencesPanelProps {
+  symbolName: string;
+  references: SymbolReference[];
+  onReferenceClick: (reference: SymbolReference) => void;
+  onClose: () => void;
+}
+
+function ReferencesPanel({ symbolName, references, onReferenceClick, onClose }: ReferencesPanelProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  // Group occurrences by file, keeping the order returned by the backend
+  const groups = useMemo(() => {
+    const map = new Map<string, SymbolReference[]>();
+    for (const ref of references) {
+      if (!map.has(ref.filePath)) {
+        map.set(ref.filePath, []);
+      }
+      map.get(ref.filePath)!.push(ref);
+    }
+    return Array.from(map.entries());
+  }, [references]);
+
+  const toggleGroup = (filePath: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(filePath)) {
+        next.delete(filePath);
+      } else {
+        next.add(filePath);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="h-56 border-t border-[#3e3e42] bg-[#252526] flex flex-col">
+      <div className="flex items-center justify-between px-2 py-1 border-b border-[#3e3e42] text-xs">
+        <span className="font-semibold uppercase text-[#cccccc]">
+          References: <span className="normal-case font-mono text-white">{symbolName}</span>
+          <span className="ml-2 normal-case font-normal text-[#9e9e9e]">
+            {references.length} result{references.length === 1 ? '' : 's'} in {groups.length} file{groups.length === 1 ? '' : 's'}
+          </span>
+        </span>
+        <button
+          className="hover:bg-[#3e3e42] rounded p-0.5"
+          onClick={onClose}
+          title="Close"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto text-xs">
+        {groups.length === 0 && (
+          <div className="p-2 text-[#858585]">No references found</div>
+        )}
+
+        {groups.map(([filePath, refs]) => {
+          const isCollapsed = collapsed.has(filePath);
+          const fileName = filePath.split(/[/\\]/).pop() || filePath;
+          return (
+            <div key={filePath}>
+              <div
+                className="flex items-center gap-1 px-2 py-1 cursor-pointer hover:bg-[#2a2d2e]"
+                onClick={() => toggleGroup(filePath)}
+              >
+                {isCollapsed ? (
+                  <ChevronRight size={14} className="flex-shrink-0" />
+                ) : (
+                  <ChevronDown size={14} className="flex-shrink-0" />
+                )}
+                <span className="font-semibold">{fileName}</span>
+                <span className="text-[10px] text-[#9e9e9e] truncate">{filePath}</span>
+                <span className="ml-auto text-[10px] text-[#9e9e9e]">{refs.length}</span>
+              </div>
+
+              {!isCollapsed && refs.map((ref) => (
+                <div
+                  key={`${ref.line}:${ref.column}`}
+                  className="flex gap-2 pl-8 pr-2 py-0.5 cursor-pointer hover:bg-[#3e3e42]"
+                  onClick={() => onReferenceClick(ref)}
+                >
+                  <span className="text-[#9e9e9e] w-12 flex-shrink-0 text-right">{ref.line}</span>
+                  <span className="font-mono truncate text-[#dcdcdc]">{ref.preview}</span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default ReferencesPanel;
@@ -1,9 +1,23 @@
+import type { BuildConfiguration, ParserBackend } from '../../shared/types';
+
 interface StatusBarProps {
   activeFile?: string;
   language?: string;
+  configurations?: BuildConfiguration[];
+  activeConfiguration?: string | null;
+  onConfigurationChange?: (name: string) => void;
+  parserBackend?: ParserBackend;
+  onParserBackendChange?: (backend: ParserBackend) => void;
 }
 
-function StatusBar({ activeFile, language }: StatusBarProps) {
+const PARSER_BACKENDS: Array<{ id: ParserBackend; label: string; title: string }> = [
+  { id: 'regex', label: 'Regex parser', title: 'Fast pattern-based symbol extraction' },
+  { id: 'tree-sitter', label: 'Tree-sitter parser', title: 'Syntax-tree symbol extraction (K&R, attribute macros, templates)' },
+];
+
+function StatusBar({
+  activeFile, language, configurations = [], activeConfiguration, onConfigurationChange, parserBackend, onParserBackendChange,
+}: StatusBarProps) {
   const getLanguageDisplay = (lang?: string) => {
     if (!lang) return '';
     
@@ -24,11 +38,39 @@ function StatusBar({ activeFile, language }: StatusBarProps) {
         )}
       </div>
       
-      {language && (
-        <div className="flex items-center gap-4">
-          <span>{getLanguageDisplay(language)}</span>
-        </div>
-      )}
+      <div className="flex items-center gap-4">
+        {/* Build configuration (.opt file) used for #if shading and compiled-out symbols */}
+        {configurations.length > 0 && (
+          <select
+            className="bg-[#007acc] text-white text-xs outline-none cursor-pointer hover:bg-[#1a8ad4]"
+            value={activeConfiguration ?? ''}
+            title={configurations.find(c => c.name === activeConfiguration)?.optPath}
+            onChange={(e) => onConfigurationChange?.(e.target.value)}
+          >
+            {configurations.map((c) => (
+              <option key={c.optPath} value={c.name}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {/* Symbol extraction of the open project; switching re-parses every file */}
+        {parserBackend && (
+          <select
+            className="bg-[#007acc] text-white text-xs outline-none cursor-pointer hover:bg-[#1a8ad4]"
+            value={parserBackend}
+            title={PARSER_BACKENDS.find(b => b.id === parserBackend)?.title}
+            onChange={(e) => onParserBackendChange?.(e.target.value as ParserBackend)}
+          >
+            {PARSER_BACKENDS.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.label}
+              </option>
+            ))}
+          </select>
+        )}
+        {language && <span>{getLanguageDisplay(language)}</span>}
+      </div>
     </div>
   );
 }
@@ -32,11 +32,16 @@ function SymbolList({ symbols, projectFiles, onSymbolDoubleClick, onFileDoubleCl
   const filteredSymbols = useMemo(() => {
     if (mode !== 'symbol') return symbols;
     const term = search.trim().toLowerCase();
-    if (!term) return symbols;
-    return symbols.filter((s) =>
-      s.name.toLowerCase().includes(term) ||
-      s.filePath.toLowerCase().includes(term)
-    );
+    const matches = term
+      ? symbols.filter((s) =>
+          s.name.toLowerCase().includes(term) ||
+          s.filePath.toLowerCase().includes(term)
+        )
+      : symbols;
+    // Symbols compiled out under the loaded CFLAGS go after the active ones
+    return matches.some((s) => s.active === false)
+      ? [...matches].sort((a, b) => Number(a.active === false) - Number(b.active === false))
+      : matches;
   }, [symbols, search, mode]);
 
   const filteredFiles = useMemo(() => {
@@ -102,12 +107,27 @@ function SymbolList({ symbols, projectFiles, onSymbolDoubleClick, onFileDoubleCl
             {filteredSymbols.slice(0, visibleCount).map((symbol, index) => (
               <div
                 key={`${symbol.filePath}:${symbol.line}:${symbol.column}:${index}`}
-                className="px-2 py-1 cursor-default hover:bg-[#3e3e42] flex flex-col gap-0.5"
+                className={`px-2 py-1 cursor-default hover:bg-[#3e3e42] flex flex-col gap-0.5 ${
+                  symbol.active === false ? 'opacity-50' : ''
+                }`}
+                title={[symbol.signature, symbol.condition && `#if ${symbol.condition}`].filter(Boolean).join('\n') || undefined}
                 onDoubleClick={() => onSymbolDoubleClick(symbol)}
               >
                 <div className="flex justify-between gap-2">
-                  <span className="font-semibold truncate">{symbol.name}</span>
-                  <span className="text-[10px] text-[#9e9e9e] uppercase">{symbol.kind}</span>
+                  <span className={`font-semibold truncate ${symbol.active === false ? 'line-through' : ''}`}>
+                    {symbol.name}
+                    {symbol.container && (
+                      <span className="font-normal text-[#9e9e9e]"> ({symbol.container})</span>
+                    )}
+                  </span>
+                  <span className="text-[10px] text-[#9e9e9e] uppercase whitespace-nowrap">
+                    {symbol.active === false && (
+                      <span className="px-1 mr-1 rounded bg-[#3e3e42] normal-case" title="Compiled out under the loaded CFLAGS">
+                        inactive
+                      </span>
+                    )}
+                    {symbol.storage ? `${symbol.storage} ` : ''}{symbol.kind}{symbol.isDefinition === false ? ' decl' : ''}
+                  </span>
                 </div>
                 <div className="text-[10px] text-[#9e9e9e] truncate">
                   {symbol.filePath} : {symbol.line}
@@ -1,4 +1,7 @@
-import type { FileNode, FileContent, Symbol } from '../shared/types';
+import type {
+  FileNode, FileContent, Symbol, SymbolReference, DefinitionRequest, CallHierarchyItem, IncludeDirective,
+  BuildConfigurationState, OptFile, FileFlags, ParserBackend, SymbolExportOptions,
+} from '../shared/types';
 
 declare global {
   interface Window {
@@ -6,12 +9,35 @@ declare global {
       openFolder: () => Promise<FileNode | null>;
       readFile: (path: string) => Promise<FileContent>;
       getFileTree: (path: string) => Promise<FileNode>;
-      findDefinition: (symbolName: string) => Promise<Symbol[]>;
+      findDefinition: (request: DefinitionRequest) => Promise<Symbol[]>;
+      findDeclaration: (request: DefinitionRequest) => Promise<Symbol[]>;
+      findReferences: (symbolName: string) => Promise<SymbolReference[]>;
+      prepareCallHierarchy: (request: DefinitionRequest) => Promise<CallHierarchyItem | null>;
+      getIncomingCalls: (item: CallHierarchyItem) => Promise<CallHierarchyItem[]>;
+      getOutgoingCalls: (item: CallHierarchyItem) => Promise<CallHierarchyItem[]>;
+      resolveInclude: (header: string, fromFile: string, isSystem: boolean) => Promise<string | null>;
+      getIncludes: (filePath: string) => Promise<IncludeDirective[]>;
+      getIncludedBy: (filePath: string) => Promise<IncludeDirective[]>;
+      getOptFile: () => Promise<OptFile | null>;
+      getFileFlags: (filePath: string) => Promise<FileFlags | null>;
+      getConfigurations: () => Promise<BuildConfigurationState>;
+      setActiveConfiguration: (name: string) => Promise<BuildConfigurationState>;
+      getParserBackend: () => Promise<ParserBackend>;
+      setParserBackend: (backend: ParserBackend) => Promise<ParserBackend>;
+      readDefinesFile: (optPath: string) => Promise<Record<string, string | null>>;
+      chooseOptFile: () => Promise<string | null>;
+      findConditionalUses: (macroName: string) => Promise<SymbolReference[]>;
+      exportText: (defaultName: string, content: string) => Promise<boolean>;
+      exportSymbols: (options: SymbolExportOptions) => Promise<{ filePath: string; count: number } | null>;
       minimizeWindow: () => void;
       maximizeWindow: () => void;
       closeWindow: () => void;
       onFolderOpened: (callback: (tree: FileNode) => void) => void;
       onBuildProgress: (callback: (progress: any) => void) => void;
+      onFileTreeUpdated: (callback: (tree: FileNode) => void) => void;
+      onFilesChanged: (callback: (changes: { changed: string[]; removed: string[] }) => void) => void;
+      onExportSymbols: (callback: () => void) => void;
+      onConfigurationsUpdated: (callback: (state: BuildConfigurationState) => void) => void;
     };
   }
 }
@@ -0,0 +1,496 @@
+// C preprocessor conditionals: #if expression evaluation and #if/#elif/#else/#endif
+// chain tracking. Shared by the editor (inactive-code shading) and the indexer.
+
+// Macro values as loaded from CFLAGS (-DNAME -> null, -DNAME=VALUE -> 'VALUE')
+export type Defines = Record<string, string | null>;
+
+// Session-only change to one define: a new value (null for a bare -DNAME), or removed like -U
+export type DefineOverride = { value: string | null } | { removed: true };
+
+export type ConditionalDirective = 'if' | 'ifdef' | 'ifndef' | 'elif' | 'else';
+
+// One branch of an #if/#elif/#else chain
+export interface ConditionalBranch {
+  directive: ConditionalDirective;
+  line: number;        // line of the directive (1-based)
+  contentLine: number; // first line after the directive and its "\" continuations
+  endLine: number;     // line of the #elif/#else/#endif that ends the branch
+  expression: string;  // condition as an #if expression ('defined(X)' for #ifdef X, '' for #else)
+  depth: number;       // 0 for top-level chains
+  active: boolean;     // false only when the branch is certainly not compiled, parents included
+  condition: string;   // full condition for the branch content: parents, earlier branches negated, own expression
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'identifier'; value: string }
+  | { type: 'operator'; value: string };
+
+// Longest operators first so "<<" is not read as "<" "<"
+const OPERATORS = [
+  '||', '&&', '==', '!=', '<=', '>=', '<<', '>>',
+  '|', '^', '&', '<', '>', '+', '-', '*', '/', '%', '!', '~', '?', ':', '(', ')', ',',
+];
+
+const CHAR_ESCAPES: Record<string, number> = {
+  n: 10, t: 9, r: 13, '0': 0, '\\': 92, "'": 39, '"': 34, a: 7, b: 8, f: 12, v: 11,
+};
+
+// Macro values that refer to themselves (-DA=B -DB=A) stop expanding here
+const MAX_EXPANSION_DEPTH = 16;
+
+function tokenize(expression: string): Token[] | null {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const rest = expression.substring(i);
+    const space = rest.match(/^\s+/);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^(0[xX][0-9a-fA-F]+|0[bB][01]+|\d+)[uUlL]*/);
+    if (number) {
+      const text = number[1];
+      let value: number;
+      if (/^0[xX]/.test(text)) value = parseInt(text.substring(2), 16);
+      else if (/^0[bB]/.test(text)) value = parseInt(text.substring(2), 2);
+      else if (text.length > 1 && text.startsWith('0')) value = parseInt(text, 8);
+      else value = parseInt(text, 10);
+      tokens.push({ type: 'number', value });
+      i += number[0].length;
+      continue;
+    }
+
+    const char = rest.match(/^'(\\(.)|[^'\\])'/);
+    if (char) {
+      const value = char[2] !== undefined ? CHAR_ESCAPES[char[2]] ?? char[2].charCodeAt(0) : char[1].charCodeAt(0);
+      tokens.push({ type: 'number', value });
+      i += char[0].length;
+      continue;
+    }
+
+    const identifier = rest.match(/^[A-Za-z_]\w*/);
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0] });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op));
+    if (!operator) return null;
+    tokens.push({ type: 'operator', value: operator });
+    i += operator.length;
+  }
+
+  return tokens;
+}
+
+// Recursive-descent evaluator over C operator precedence. Every value is a number,
+// or null when it depends on something that cannot be known (function-like macro
+// calls, __has_include, macros when no defines are given). Logical operators
+// short-circuit around unknowns, so "0 && FOO(1)" is still 0.
+class ExpressionEvaluator {
+  private tokens: Token[];
+  private pos = 0;
+  private defines: Defines | null;
+  private depth: number;
+
+  constructor(tokens: Token[], defines: Defines | null, depth: number) {
+    this.tokens = tokens;
+    this.defines = defines;
+    this.depth = depth;
+  }
+
+  evaluate(): number | null {
+    const value = this.conditional();
+    if (this.pos !== this.tokens.length) {
+      throw new SyntaxError('Unexpected token in #if expression');
+    }
+    return value;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token && token.type === 'operator' && token.value === operator) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(operator: string): void {
+    if (!this.accept(operator)) {
+      throw new SyntaxError(`Expected '${operator}' in #if expression`);
+    }
+  }
+
+  private conditional(): number | null {
+    const condition = this.logicalOr();
+    if (!this.accept('?')) return condition;
+
+    const whenTrue = this.conditional();
+    this.expect(':');
+    const whenFalse = this.conditional();
+
+    if (condition === null) {
+      return whenTrue === whenFalse ? whenTrue : null;
+    }
+    return condition !== 0 ? whenTrue : whenFalse;
+  }
+
+  private logicalOr(): number | null {
+    let left = this.logicalAnd();
+    while (this.accept('||')) {
+      const right = this.logicalAnd();
+      if ((left !== null && left !== 0) || (right !== null && right !== 0)) left = 1;
+      else if (left === null || right === null) left = null;
+      else left = 0;
+    }
+    return left;
+  }
+
+  private logicalAnd(): number | null {
+    let left = this.binary(0);
+    while (this.accept('&&')) {
+      const right = this.binary(0);
+      if (left === 0 || right === 0) left = 0;
+      else if (left === null || right === null) left = null;
+      else left = 1;
+    }
+    return left;
+  }
+
+  // Binary operators from "|" down to "*", lowest precedence first
+  private static readonly LEVELS: string[][] = [
+    ['|'], ['^'], ['&'], ['==', '!='], ['<', '>', '<=', '>='], ['<<', '>>'], ['+', '-'], ['*', '/', '%'],
+  ];
+
+  private binary(level: number): number | null {
+    if (level === ExpressionEvaluator.LEVELS.length) {
+      return this.unary();
+    }
+
+    let left = this.binary(level + 1);
+    for (;;) {
+      const operator = ExpressionEvaluator.LEVELS[level].find(op => this.accept(op));
+      if (!operator) return left;
+
+      const right = this.binary(level + 1);
+      left = left === null || right === null ? null : this.apply(operator, left, right);
+    }
+  }
+
+  private apply(operator: string, left: number, right: number): number | null {
+    switch (operator) {
+      case '|': return left | right;
+      case '^': return left ^ right;
+      case '&': return left & right;
+      case '==': return left === right ? 1 : 0;
+      case '!=': return left !== right ? 1 : 0;
+      case '<': return left < right ? 1 : 0;
+      case '>': return left > right ? 1 : 0;
+      case '<=': return left <= right ? 1 : 0;
+      case '>=': return left >= right ? 1 : 0;
+      case '<<': return left << right;
+      case '>>': return left >> right;
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      // Division by zero is an error in the preprocessor; leave the branch undecided
+      case '/': return right === 0 ? null : Math.trunc(left / right);
+      case '%': return right === 0 ? null : left % right;
+      default: return null;
+    }
+  }
+
+  private unary(): number | null {
+    if (this.accept('!')) {
+      const value = this.unary();
+      return value === null ? null : value === 0 ? 1 : 0;
+    }
+    if (this.accept('~')) {
+      const value = this.unary();
+      return value === null ? null : ~value;
+    }
+    if (this.accept('-')) {
+      const value = this.unary();
+      return value === null ? null : -value;
+    }
+    if (this.accept('+')) {
+      return this.unary();
+    }
+    return this.primary();
+  }
+
+  private primary(): number | null {
+    if (this.accept('(')) {
+      const value = this.conditional();
+      this.expect(')');
+      return value;
+    }
+
+    const token = this.peek();
+    if (!token) {
+      throw new SyntaxError('Unexpected end of #if expression');
+    }
+    this.pos++;
+
+    if (token.type === 'number') {
+      return token.value;
+    }
+    if (token.type === 'operator') {
+      throw new SyntaxError(`Unexpected '${token.value}' in #if expression`);
+    }
+
+    if (token.value === 'defined') {
+      const parenthesized = this.accept('(');
+      const name = this.peek();
+      if (!name || name.type !== 'identifier') {
+        throw new SyntaxError('Expected a macro name after defined');
+      }
+      this.pos++;
+      if (parenthesized) this.expect(')');
+
+      if (this.defines === null) return null;
+      return Object.prototype.hasOwnProperty.call(this.defines, name.value) ? 1 : 0;
+    }
+
+    // Function-like macro invocations and __has_include(...) cannot be evaluated here
+    if (this.accept('(')) {
+      let nesting = 1;
+      while (nesting > 0 && this.pos < this.tokens.length) {
+        const inner = this.tokens[this.pos++];
+        if (inner.type === 'operator' && inner.value === '(') nesting++;
+        if (inner.type === 'operator' && inner.value === ')') nesting--;
+      }
+      return null;
+    }
+
+    return this.macroValue(token.value);
+  }
+
+  private macroValue(name: string): number | null {
+    if (name === 'true') return 1;
+    if (name === 'false') return 0;
+    if (this.defines === null) return null;
+
+    // Undefined identifiers are 0 in #if; -DNAME alone means 1
+    if (!Object.prototype.hasOwnProperty.call(this.defines, name)) return 0;
+    const value = this.defines[name];
+    if (value === null) return 1;
+    if (this.depth >= MAX_EXPANSION_DEPTH) return null;
+
+    return evaluateExpression(value, this.defines, this.depth + 1);
+  }
+}
+
+function evaluateExpression(expression: string, defines: Defines | null, depth: number): number | null {
+  const tokens = tokenize(expression);
+  if (!tokens || tokens.length === 0) return null;
+
+  try {
+    return new ExpressionEvaluator(tokens, defines, depth).evaluate();
+  } catch {
+    return null;
+  }
+}
+
+// Value of an #if/#elif expression: true/false, or null when it cannot be decided.
+// With defines === null no macro is known, so only constant expressions such as
+// "0" or "1 && (2 > 1)" are decided.
+export function evaluateCondition(expression: string, defines: Defines | null): boolean | null {
+  const value = evaluateExpression(expression, defines, 0);
+  return value === null ? null : value !== 0;
+}
+
+// Preprocessor directive on each line, with comments removed and "\" continuations joined
+function collectDirectives(lines: string[]): Array<{ line: number; endLine: number; text: string }> {
+  const directives: Array<{ line: number; endLine: number; text: string }> = [];
+  let inBlockComment = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const startsInComment = inBlockComment;
+    let line = lines[i];
+    let endLine = i;
+
+    // Remove /* */ and // comments, tracking block comments across lines
+    const stripComments = (text: string) => {
+      let result = '';
+      let j = 0;
+      while (j < text.length) {
+        if (inBlockComment) {
+          const end = text.indexOf('*/', j);
+          if (end === -1) return result;
+          inBlockComment = false;
+          result += ' ';
+          j = end + 2;
+        } else if (text.startsWith('/*', j)) {
+          inBlockComment = true;
+          j += 2;
+        } else if (text.startsWith('//', j)) {
+          return result;
+        } else {
+          result += text[j++];
+        }
+      }
+      return result;
+    };
+
+    let code = stripComments(line);
+    if (startsInComment || !/^\s*#/.test(code)) continue;
+
+    while (/\\\s*$/.test(line) && endLine + 1 < lines.length) {
+      code = code.replace(/\\\s*$/, ' ');
+      endLine++;
+      line = lines[endLine];
+      code += stripComments(line);
+    }
+
+    directives.push({ line: i + 1, endLine: endLine + 1, text: code.trim() });
+    i = endLine;
+  }
+
+  return directives;
+}
+
+// Wrap an expression in parentheses unless it is a single operand
+function group(expression: string): string {
+  return /^!?\s*(defined\s*\(\s*\w+\s*\)|defined\s+\w+|\w+)$/.test(expression) ? expression : `(${expression})`;
+}
+
+// Every branch of every conditional chain in a file, with whether it is compiled
+// under the given defines. Undecidable conditions are treated as active, and once
+// one is seen the later #elif/#else of the chain cannot be ruled out either.
+export function evaluateConditionals(lines: string[], defines: Defines | null): ConditionalBranch[] {
+  const branches: ConditionalBranch[] = [];
+  type Frame = { parentActive: boolean; parentCondition: string; previous: string[]; state: 'open' | 'taken' | 'unknown' };
+  const stack: Array<Frame & { branch: ConditionalBranch }> = [];
+
+  const openBranch = (
+    frame: Frame,
+    directive: ConditionalDirective,
+    line: number,
+    contentLine: number,
+    expression: string,
+    condition: boolean | null
+  ): { branch: ConditionalBranch; state: 'open' | 'taken' | 'unknown' } => {
+    let active: boolean;
+    let state = frame.state;
+
+    if (state === 'taken') {
+      active = false;
+    } else if (condition === false) {
+      active = false;
+    } else {
+      active = true;
+      if (state === 'open') state = condition === true ? 'taken' : 'unknown';
+    }
+
+    // Parts that are constant-true without any defines ("#if 1", the #else after "#if 0") are left out
+    const terms = [
+      frame.parentCondition,
+      ...frame.previous.filter(e => e !== '' && evaluateCondition(e, null) !== false).map(e => `!${group(e)}`),
+      expression && evaluateCondition(expression, null) !== true ? group(expression) : '',
+    ];
+
+    const branch: ConditionalBranch = {
+      directive,
+      line,
+      contentLine,
+      endLine: line,
+      expression,
+      depth: stack.length,
+      active: frame.parentActive && active,
+      condition: terms.filter(term => term !== '').join(' && '),
+    };
+    branches.push(branch);
+    return { branch, state };
+  };
+
+  for (const directive of collectDirectives(lines)) {
+    const match = directive.text.match(/^#\s*(\w+)\s*([\s\S]*)$/);
+    if (!match) continue;
+    const keyword = match[1];
+    const argument = match[2].trim();
+
+    if (keyword === 'if' || keyword === 'ifdef' || keyword === 'ifndef') {
+      const parent = stack.length > 0 ? stack[stack.length - 1].branch : null;
+      const parentActive = !parent || parent.active;
+      const name = argument.match(/^[A-Za-z_]\w*/)?.[0] ?? '';
+      const expression = keyword === 'if' ? argument
+        : keyword === 'ifdef' ? `defined(${name})`
+        : `!defined(${name})`;
+
+      const frame: Frame = { parentActive, parentCondition: parent?.condition ?? '', previous: [], state: 'open' };
+      const { branch, state } = openBranch(frame, keyword, directive.line, directive.endLine + 1, expression, evaluateCondition(expression, defines));
+      stack.push({ ...frame, state, branch });
+    } else if ((keyword === 'elif' || keyword === 'else') && stack.length > 0) {
+      const frame = stack.pop()!;
+      frame.branch.endLine = directive.line;
+
+      frame.previous = [...frame.previous, frame.branch.expression];
+      const condition = keyword === 'else' ? true : evaluateCondition(argument, defines);
+      const { branch, state } = openBranch(frame, keyword, directive.line, directive.endLine + 1, keyword === 'else' ? '' : argument, condition);
+      stack.push({ ...frame, state, branch });
+    } else if (keyword === 'endif' && stack.length > 0) {
+      stack.pop()!.branch.endLine = directive.line;
+    }
+  }
+
+  // Unterminated chains run to the end of the file
+  for (const frame of stack) {
+    frame.branch.endLine = lines.length + 1;
+  }
+
+  return branches;
+}
+
+// inactive[n] is true when line n (1-based) lies inside a branch that is not compiled.
+// The directive lines of the chain itself are left active.
+export function findInactiveLines(lines: string[], defines: Defines | null): boolean[] {
+  const inactive: boolean[] = new Array(lines.length + 1).fill(false);
+
+  for (const branch of evaluateConditionals(lines, defines)) {
+    if (branch.active) continue;
+    for (let line = branch.contentLine; line < branch.endLine && line <= lines.length; line++) {
+      inactive[line] = true;
+    }
+  }
+
+  return inactive;
+}
+
+// conditions[n] is the condition line n (1-based) is compiled under, '' outside any
+// conditional. Used by the indexer to record the #if around each symbol.
+export function findLineConditions(lines: string[]): string[] {
+  const conditions: string[] = new Array(lines.length + 1).fill('');
+
+  // Branches come in source order, so nested branches overwrite their parent's range
+  for (const branch of evaluateConditionals(lines, null)) {
+    for (let line = branch.contentLine; line < branch.endLine && line <= lines.length; line++) {
+      conditions[line] = branch.condition;
+    }
+  }
+
+  return conditions;
+}
+
+// The defines with what-if overrides applied on top
+export function applyDefineOverrides(defines: Defines, overrides: Record<string, DefineOverride>): Defines {
+  const result: Defines = { ...defines };
+  for (const [name, override] of Object.entries(overrides)) {
+    if ('removed' in override) {
+      delete result[name];
+    } else {
+      result[name] = override.value;
+    }
+  }
+  return result;
+}
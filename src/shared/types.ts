@@ -23,13 +23,76 @@ export interface OpenFolderRequest {
 
 export interface Symbol {
   name: string;
-  kind: 'function' | 'class' | 'variable' | 'method' | 'struct' | 'enum' | 'typedef';
+  kind: 'function' | 'class' | 'variable' | 'method' | 'struct' | 'union' | 'enum' | 'enumerator' | 'field' | 'typedef' | 'macro' | 'import';
   filePath: string;
   line: number;
   column: number;
   endLine?: number;
   endColumn?: number;
-  signature?: string;  // 함수 시그니처 또는 typedef 전체 정의
+  signature?: string;  // 함수 시그니처, typedef 또는 #define 전체 정의
+  qualifiedName?: string;  // 컨테이너를 포함한 전체 이름 (예: ns::Foo::init)
+  container?: string;  // 소속 범위 (enum, struct/union/class, namespace)
+  storage?: 'static' | 'extern';  // C/C++ 저장 클래스
+  isDefinition?: boolean;  // false 이면 선언만 (예: extern 변수)
+  decorators?: string[];  // Python 데코레이터 (@ 제외)
+  bases?: string[];  // Python 베이스 클래스
+  importModule?: string;  // import 대상 모듈 (from 뒤 또는 import 뒤, 상대 경로는 . 포함)
+  importName?: string;  // from ... import 로 가져온 원래 이름
+  condition?: string;  // 심볼을 감싼 #if 조건 (바깥 조건, 앞선 #elif 부정 포함. 없으면 항상 컴파일)
+  active?: boolean;  // 불러온 CFLAGS 에서 컴파일되는지 (false 면 제외됨, CFLAGS 가 없으면 없음)
+}
+
+// 식별자 출현 위치 (Find All References)
+export interface SymbolReference {
+  name: string;
+  filePath: string;
+  line: number;
+  column: number;
+  preview?: string;  // 해당 라인 텍스트 (조회 시 채워짐)
+}
+
+// 함수 본문 안의 호출 위치 (Call Hierarchy)
+export interface CallSite {
+  caller: string;                // 호출하는 함수 이름
+  callerQualifiedName?: string;  // 예: ns::Foo::init, Foo.method
+  callee: string;                // 호출되는 이름
+  filePath: string;
+  line: number;
+  column: number;
+}
+
+// Call Hierarchy 트리의 노드 (함수 하나와 그 안/밖의 호출 위치)
+export interface CallHierarchyItem {
+  name: string;
+  qualifiedName?: string;
+  kind?: Symbol['kind'];         // 정의를 찾지 못하면 없음 (라이브러리 함수 등)
+  filePath: string;              // 정의 위치, 없으면 첫 호출 위치
+  line: number;
+  column: number;
+  callSites: SymbolReference[];  // 부모와 이 노드 사이의 호출 위치
+}
+
+// #include 지시문 하나 (include graph 의 edge)
+export interface IncludeDirective {
+  filePath: string;        // #include 가 있는 파일
+  line: number;
+  column: number;          // 헤더 이름을 여는 " 또는 < 위치
+  header: string;          // 작성된 이름 (예: wlc.h, sys/types.h)
+  isSystem: boolean;       // <...> 형태
+  resolvedPath?: string;   // 찾은 헤더 파일 (못 찾으면 없음)
+}
+
+// 심볼 추출 방식 (프로젝트별로 선택, 기본은 regex)
+export type ParserBackend = 'regex' | 'tree-sitter';
+
+// 심볼 내보내기 형식 (ctags tags 파일, JSON, CSV)
+export type SymbolExportFormat = 'ctags' | 'json' | 'csv';
+
+// 심볼 내보내기 조건
+export interface SymbolExportOptions {
+  format: SymbolExportFormat;
+  kinds: Symbol['kind'][];  // 비어 있으면 모든 종류
+  directory: string;  // 이 디렉터리(하위 포함)의 심볼만, 빈 문자열이면 프로젝트 전체
 }
 
 export interface SymbolIndex {
@@ -39,11 +102,59 @@ export interface SymbolIndex {
 export interface DefinitionRequest {
   symbolName: string;
   currentFilePath: string;
+  line?: number;       // 커서 라인, 둘러싼 class/namespace 판별에 사용
+  qualifier?: string;  // 이름 앞에 명시된 한정자 (Foo::init 의 Foo)
 }
 
 export interface BuildProgress {
-  phase: 'scanning' | 'parsing' | 'saving' | 'complete';
+  phase: 'scanning' | 'parsing' | 'saving' | 'complete' | 'failed';
   current: number;
   total: number;
   currentFile?: string;
+  skipped?: number;   // 변경되지 않아 다시 파싱하지 않은 파일 수 (증분 빌드)
+}
+
+// 빌드 설정 하나 (.opt 파일 하나, 칩/기능 조합별)
+export interface BuildConfiguration {
+  name: string;     // 프로젝트 루트 기준 상대 경로에서 .opt 를 뺀 이름 (예: rtecdc, 4389/rtecdc)
+  optPath: string;  // .opt 파일 절대 경로
+}
+
+// 프로젝트의 빌드 설정 목록과 선택된 설정
+export interface BuildConfigurationState {
+  configurations: BuildConfiguration[];
+  active: string | null;
+}
+
+// opt 파일의 옵션 하나 (-DNAME=VALUE, -UNAME, -I dir, -include file ...)
+export interface OptOption {
+  kind: 'define' | 'undefine' | 'includeDir' | 'forcedInclude' | 'other';
+  flag: string;            // -D, -U, -I, -isystem, -include, -imacros, -O2 ...
+  name?: string;           // -D/-U 매크로 이름
+  value?: string | null;   // -D 값 (값이 없으면 null), 경로 옵션의 경로 (따옴표 제외)
+  line: number;            // opt 파일의 라인 (1부터)
+}
+
+// opt 파일의 [섹션] 하나. 첫 헤더 앞의 라인은 이름이 '' 인 섹션
+export interface OptSection {
+  name: string;
+  lines: string[];         // 헤더를 제외한 원문 라인
+  options: OptOption[];
+}
+
+// 파싱된 opt 파일과 그 결과 (컴파일러에 적용되는 값)
+export interface OptFile {
+  filePath: string;
+  sections: OptSection[];
+  defines: Record<string, string | null>;  // -D 에서 -U 를 뺀 값 (-include 헤더의 #define 포함)
+  undefines: string[];                     // -U 로 제거된 매크로
+  includeDirs: string[];                   // 절대 경로, 나온 순서
+  forcedIncludes: string[];                // -include / -imacros 파일 (찾으면 절대 경로)
+}
+
+// compile_commands.json 에서 가져온 파일 하나의 플래그
+export interface FileFlags {
+  defines: Record<string, string | null>;  // -D/-U 를 순서대로 적용한 결과
+  includeDirs: string[];                   // -I 계열 디렉터리 (절대 경로)
+  sourceFile: string;                      // 플래그를 가진 translation unit (헤더면 처음 include 한 파일)
 }
@@ -0,0 +1,105 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+const CLI = path.join(__dirname, '..', 'src', 'main', 'cli.js');
+
+function run(args: string[], cwd: string): { status: number | null; stdout: string; stderr: string } {
+  const result = spawnSync(process.execPath, [CLI, ...args], { cwd, encoding: 'utf-8', timeout: 60000 });
+  return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+function withProject(body: (dir: string) => void): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-viewer-'));
+  fs.writeFileSync(path.join(dir, 'a.c'), [
+    'int helper(int a) { return a; }',
+    '#ifdef FEATURE',
+    'int feature(void) { return helper(1); }',
+    '#endif',
+    '',
+  ].join('\n'));
+  fs.writeFileSync(path.join(dir, 'build.opt'), '[CFLAGS_sort]\n-DLEVEL=2 -UFEATURE -Iinc\n');
+  try {
+    body(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('usage errors exit with 2', () => {
+  withProject((dir) => {
+    const none = run([], dir);
+    assert.equal(none.status, 2);
+    assert.match(none.stdout, /^Usage: source-viewer/);
+
+    assert.equal(run(['--help'], dir).status, 0);
+
+    const unknownCommand = run(['frobnicate'], dir);
+    assert.equal(unknownCommand.status, 2);
+    assert.match(unknownCommand.stderr, /unknown command 'frobnicate'/);
+
+    assert.equal(run(['index', dir, '--bogus'], dir).status, 2);
+    assert.equal(run(['index', dir, '--backend', 'ctags'], dir).status, 2);
+    assert.equal(run(['def'], dir).status, 2);
+    assert.equal(run(['stats', 'extra'], dir).status, 2);
+  });
+});
+
+test('queries before index fail with 1', () => {
+  withProject((dir) => {
+    const def = run(['def', 'helper'], dir);
+    assert.equal(def.status, 1);
+    assert.match(def.stderr, /no symbol database in .*run 'index' first/);
+    assert.equal(run(['stats'], dir).status, 1);
+  });
+});
+
+test('index, then def, refs and stats against the database', () => {
+  withProject((dir) => {
+    const index = run(['index', '.', '--json'], dir);
+    assert.equal(index.status, 0, index.stderr);
+    assert.deepEqual(JSON.parse(index.stdout), {
+      project: dir, backend: 'regex', parsedFiles: 1, skippedFiles: 0, removedFiles: 0, totalSymbols: 2,
+    });
+    assert.match(run(['index', dir], dir).stdout, /0 file\(s\) parsed, 1 unchanged file\(s\) skipped/);
+
+    const def = run(['def', 'helper'], dir);
+    assert.equal(def.status, 0);
+    assert.equal(def.stdout, 'a.c:1:5: function int helper(int a)\n');
+    assert.equal(run(['def', 'missing'], dir).status, 1);
+
+    // Under the configuration's -UFEATURE, feature() is compiled out
+    const other = fs.mkdtempSync(path.join(os.tmpdir(), 'source-viewer-'));
+    try {
+      const inactive = run(['def', 'feature', '-p', dir, '--cflags', path.join(dir, 'build.opt')], other);
+      assert.equal(inactive.stdout, 'a.c:3:5: function (compiled out) int feature(void)\n');
+    } finally {
+      fs.rmSync(other, { recursive: true, force: true });
+    }
+
+    const refs = run(['refs', 'helper', '--json'], dir);
+    assert.equal(refs.status, 0);
+    assert.deepEqual(JSON.parse(refs.stdout).map((ref: { line: number; column: number; preview: string }) => [ref.line, ref.column, ref.preview]), [
+      [1, 5, 'int helper(int a) { return a; }'],
+      [3, 28, 'int feature(void) { return helper(1); }'],
+    ]);
+
+    const stats = JSON.parse(run(['stats', '--json'], dir).stdout);
+    assert.equal(stats.totalSymbols, 2);
+    assert.equal(stats.files, 1);
+    assert.deepEqual(stats.byKind, { function: 2 });
+    assert.equal(stats.parserBackend, 'regex');
+  });
+});
+
+test('cflags prints the options of an .opt file', () => {
+  withProject((dir) => {
+    const cflags = run(['cflags', 'build.opt'], dir);
+    assert.equal(cflags.status, 0);
+    assert.equal(cflags.stdout, `-DLEVEL=2\n-UFEATURE\n-I${path.join(dir, 'inc')}\n`);
+    assert.equal(run(['cflags', 'missing.opt'], dir).status, 1);
+  });
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { blankUnbalancedAlternatives, findMatchingBrace, scanTopLevelStatements } from '../src/main/lexer';
+
+const UNEVEN_IF = [
+  'int first(int a) {',
+  '#ifdef FEATURE_X',
+  '    if (a > 1) {',
+  '#else',
+  '    if (a > 2) {',
+  '#endif',
+  '        return 1;',
+  '    }',
+  '    return 0;',
+  '}',
+  'int second(void) { return 0; }',
+].join('\n');
+
+test('only the first branch of a chain with uneven braces is kept', () => {
+  const lines = blankUnbalancedAlternatives(UNEVEN_IF).split('\n');
+  assert.equal(lines[2], '    if (a > 1) {');
+  assert.equal(lines[4].trim(), '');
+  assert.equal(lines[3], '#else');
+  assert.equal(blankUnbalancedAlternatives(UNEVEN_IF).length, UNEVEN_IF.length);
+});
+
+test('function bodies end at their own brace after an uneven chain', () => {
+  const code = blankUnbalancedAlternatives(UNEVEN_IF);
+  assert.equal(findMatchingBrace(code, code.indexOf('{')), code.indexOf('}\nint second'));
+  assert.equal(scanTopLevelStatements(code).filter(statement => statement.bodyEnd !== undefined).length, 2);
+});
+
+test('alternative headers of one body keep only the first', () => {
+  const code = '#ifdef FEATURE_X\nvoid foo(int a) {\n#else\nvoid foo(int a, int b) {\n#endif\n    bar();\n}\n';
+  const lines = blankUnbalancedAlternatives(code).split('\n');
+  assert.equal(lines[1], 'void foo(int a) {');
+  assert.equal(lines[3].trim(), '');
+});
+
+test('chains with balanced branches are kept whole', () => {
+  const code = '#ifdef FEATURE_X\nvoid foo(int a) { }\n#elif defined(Y)\nvoid foo(void) { }\n#else\nvoid foo(int a, int b) { }\n#endif\n';
+  assert.equal(blankUnbalancedAlternatives(code), code);
+});
+
+test('a nested uneven chain is reduced before its parent is checked', () => {
+  const code = [
+    '#ifdef A',
+    'void f(void) {',
+    '#ifdef B',
+    '    if (x) {',
+    '#else',
+    '    if (y) {',
+    '#endif',
+    '    }',
+    '}',
+    '#else',
+    'void g(void) { }',
+    '#endif',
+  ].join('\n');
+  const lines = blankUnbalancedAlternatives(code).split('\n');
+  assert.equal(lines[5].trim(), '');
+  assert.equal(lines[10], 'void g(void) { }');
+});
+
+test('branches ruled out by a constant condition do not count', () => {
+  const code = '#if 0\nvoid a(void) {\n#else\nvoid b(void) {\n#endif\n}\n';
+  assert.equal(blankUnbalancedAlternatives(code), code);
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCompilerOptions, parseOptFile } from '../src/main/optFile';
+import { evaluateCondition } from '../src/shared/preprocessor';
+
+function withDirectory(files: Record<string, string>, run: (dir: string) => void): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-viewer-'));
+  try {
+    Object.entries(files).forEach(([name, content]) => {
+      fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+      fs.writeFileSync(path.join(dir, name), content);
+    });
+    run(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('-U wins over -D whatever their order', () => {
+  const opt = parseOptFile('a.opt', '-DA -DB=2 -UA\n-UC\n-DC=3\n-DB=4\n', '/base');
+  assert.deepEqual(opt.defines, { B: '4' });
+  assert.deepEqual(opt.undefines, ['A', 'C']);
+});
+
+test('only the CFLAGS_sort section defines the build; include paths come from every section', () => {
+  const opt = parseOptFile('a.opt', [
+    '[CFLAGS]',
+    '-DRAW -Iinc',
+    '[CFLAGS_sort]',
+    '-DSORTED=1',
+    '-I inc',
+    '# -DCOMMENTED',
+    '[LDFLAGS]',
+    '-I/abs/lib',
+  ].join('\n'), '/base');
+
+  assert.deepEqual(opt.sections.map(section => section.name), ['CFLAGS', 'CFLAGS_sort', 'LDFLAGS']);
+  assert.deepEqual(opt.defines, { SORTED: '1' });
+  assert.deepEqual(opt.includeDirs, [path.resolve('/base/inc'), path.resolve('/abs/lib')]);
+  assert.deepEqual(opt.sections[1].options.map(option => [option.kind, option.name ?? option.value, option.line]), [
+    ['define', 'SORTED', 4],
+    ['includeDir', 'inc', 5],
+  ]);
+});
+
+test('quoted paths and values stay in one word', () => {
+  const opt = parseOptFile('a.opt', '-I"dir with space" -DMSG="a b" -DNAME=x y\n', '/base');
+  assert.deepEqual(opt.includeDirs, [path.resolve('/base/dir with space')]);
+  assert.deepEqual(opt.defines, { MSG: '"a b"', NAME: 'x y' });
+
+  // Compile commands do not join loose words into values
+  const options = parseCompilerOptions(['-D', 'A=1', 'main.c', '-include', '"pre fix.h"'], 0, false);
+  assert.deepEqual(options.map(option => [option.kind, option.name, option.value]), [
+    ['define', 'A', '1'],
+    ['forcedInclude', undefined, 'pre fix.h'],
+  ]);
+});
+
+test('-include headers add their #defines after the -D/-U options', () => {
+  withDirectory({
+    'inc/config.h': [
+      '#define FROM_HEADER 1',
+      '#undef DROPPED',
+      '#ifdef FEATURE',
+      '#define WITH_FEATURE',
+      '#else',
+      '#define WITHOUT_FEATURE',
+      '#endif',
+      '#define CALL(x) x',
+    ].join('\n'),
+  }, (dir) => {
+    const opt = parseOptFile('a.opt', '-DFEATURE -DDROPPED -Iinc -include config.h\n', dir);
+    assert.deepEqual(opt.forcedIncludes, [path.join(dir, 'inc', 'config.h')]);
+    assert.deepEqual(opt.defines, { FEATURE: null, FROM_HEADER: '1', WITH_FEATURE: '' });
+  });
+});
+
+test('multi-line #defines in -include headers are joined', () => {
+  withDirectory({
+    'config.h': [
+      '#define LIMIT \\',
+      '    (16 * \\',
+      '     4)',
+      '#define EMPTY \\',
+      '',
+    ].join('\n'),
+  }, (dir) => {
+    const opt = parseOptFile('a.opt', '-include config.h\n', dir);
+    assert.deepEqual(opt.defines, { LIMIT: '(16 * 4)', EMPTY: '' });
+    assert.equal(evaluateCondition('defined(LIMIT) && LIMIT == 64', opt.defines), true);
+  });
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { evaluateCondition, evaluateConditionals, findInactiveLines, findLineConditions } from '../src/shared/preprocessor';
+
+test('defined() and bare defined follow the defines', () => {
+  const defines = { FOO: null, BAR: '2' };
+  assert.equal(evaluateCondition('defined(FOO)', defines), true);
+  assert.equal(evaluateCondition('defined FOO', defines), true);
+  assert.equal(evaluateCondition('defined(BAZ)', defines), false);
+  assert.equal(evaluateCondition('!defined(BAZ)', defines), true);
+  assert.equal(evaluateCondition('BAR == 2', defines), true);
+  assert.equal(evaluateCondition('BAR > 3', defines), false);
+});
+
+test('&& and || short-circuit on the side that decides', () => {
+  const defines = { FOO: null };
+  assert.equal(evaluateCondition('defined(FOO) && defined(BAR)', defines), false);
+  assert.equal(evaluateCondition('defined(FOO) || defined(BAR)', defines), true);
+  assert.equal(evaluateCondition('(defined(FOO) || defined(BAR)) && !defined(BAZ)', defines), true);
+  // Without defines, constant parts still decide
+  assert.equal(evaluateCondition('0 && defined(FOO)', null), false);
+  assert.equal(evaluateCondition('1 || defined(FOO)', null), true);
+});
+
+test('conditions on unknown macros evaluate to null', () => {
+  assert.equal(evaluateCondition('defined(FOO)', null), null);
+  assert.equal(evaluateCondition('FOO > 1', null), null);
+  assert.equal(evaluateCondition('defined(FOO) && 1', null), null);
+  assert.equal(evaluateCondition('0', null), false);
+  assert.equal(evaluateCondition('1 && (2 > 1)', null), true);
+});
+
+test('#elif chains take the first branch that holds', () => {
+  const lines = ['#if LEVEL > 2', 'a', '#elif LEVEL > 1', 'b', '#elif LEVEL > 0', 'c', '#else', 'd', '#endif'];
+  const branches = evaluateConditionals(lines, { LEVEL: '2' });
+  assert.deepEqual(branches.map(branch => [branch.directive, branch.line, branch.endLine, branch.active]), [
+    ['if', 1, 3, false],
+    ['elif', 3, 5, true],
+    ['elif', 5, 7, false],
+    ['else', 7, 9, false],
+  ]);
+  assert.deepEqual(findInactiveLines(lines, { LEVEL: '2' }).slice(1), [false, true, false, false, false, true, false, true, false]);
+  assert.equal(branches[3].condition, '!(LEVEL > 2) && !(LEVEL > 1) && !(LEVEL > 0)');
+});
+
+test('an undecidable branch keeps the rest of the chain possible', () => {
+  const branches = evaluateConditionals(['#ifdef FOO', 'a', '#elif 0', 'b', '#else', 'c', '#endif'], null);
+  assert.deepEqual(branches.map(branch => branch.active), [true, false, true]);
+  assert.deepEqual(findInactiveLines(['#if 1', 'a', '#else', 'b', '#endif'], null).slice(1), [false, false, false, true, false]);
+});
+
+test('nested conditionals combine their parents', () => {
+  const lines = ['#ifdef A', '#ifndef B', 'x', '#else', 'y', '#endif', '#endif'];
+  const branches = evaluateConditionals(lines, { A: null, B: null });
+  assert.deepEqual(branches.map(branch => [branch.depth, branch.active, branch.condition]), [
+    [0, true, 'defined(A)'],
+    [1, false, 'defined(A) && !defined(B)'],
+    [1, true, 'defined(A) && !!defined(B)'],
+  ]);
+  assert.deepEqual(evaluateConditionals(lines, {}).map(branch => branch.active), [false, false, false]);
+  assert.deepEqual(findLineConditions(lines).slice(1), ['', 'defined(A)', 'defined(A) && !defined(B)', 'defined(A)', 'defined(A) && !!defined(B)', 'defined(A)', '']);
+});
@@ -0,0 +1,173 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+import { SymbolDatabase, DatabaseOpenError, SCHEMA_VERSION } from '../src/main/symbolDatabase';
+import { SymbolParser, PARSER_VERSION } from '../src/main/symbolParser';
+
+// Schema of databases written before versions were recorded (migration 1)
+const LEGACY_SCHEMA = `
+  CREATE TABLE symbols (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    filePath TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    column INTEGER NOT NULL,
+    endLine INTEGER,
+    endColumn INTEGER,
+    signature TEXT,
+    projectPath TEXT NOT NULL
+  );
+`;
+
+async function withDatabaseFile(setup: ((db: any) => void) | Buffer, run: (dir: string) => Promise<void>): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-viewer-'));
+  try {
+    let bytes: Uint8Array;
+    if (Buffer.isBuffer(setup)) {
+      bytes = setup;
+    } else {
+      const SQL = await initSqlJs();
+      const db = new SQL.Database();
+      setup(db);
+      bytes = db.export();
+      db.close();
+    }
+    fs.writeFileSync(path.join(dir, '.sourceviewer.db'), bytes);
+    await run(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function columnsOf(dir: string, table: string): Promise<string[]> {
+  return initSqlJs().then(SQL => {
+    const db = new SQL.Database(fs.readFileSync(path.join(dir, '.sourceviewer.db')));
+    const info = db.exec(`PRAGMA table_info(${table})`);
+    db.close();
+    return info.length > 0 ? info[0].values.map(row => row[1] as string) : [];
+  });
+}
+
+test('a database from before schema versions is upgraded through every migration', async () => {
+  await withDatabaseFile((db) => {
+    db.run(LEGACY_SCHEMA);
+    db.run("INSERT INTO symbols (name, kind, filePath, line, column, projectPath) VALUES ('main', 'function', '/p/a.c', 3, 5, '/p')");
+  }, async (dir) => {
+    const database = new SymbolDatabase();
+    await database.open(dir);
+    assert.equal(database.getBuildInfo().schemaVersion, SCHEMA_VERSION);
+    assert.equal(database.getBuildInfo().parserVersion, undefined);
+
+    const symbols = database.loadSymbols('/p').get('main')!;
+    assert.deepEqual(symbols.map(s => [s.filePath, s.line, s.column, s.qualifiedName, s.condition]), [['/p/a.c', 3, 5, undefined, undefined]]);
+    assert.equal(database.getFileRecords('/p').size, 0);
+    database.close();
+
+    // The upgrade is written back right away
+    assert.ok((await columnsOf(dir, 'symbols')).includes('condition'));
+    assert.deepEqual(await columnsOf(dir, 'files'), ['filePath', 'size', 'mtime', 'hash', 'projectPath']);
+  });
+});
+
+test('only the migrations after the recorded version run', async () => {
+  await withDatabaseFile((db) => {
+    db.run(LEGACY_SCHEMA);
+    // A column the version 3 migration would add, already present
+    db.run('ALTER TABLE symbols ADD COLUMN container TEXT');
+    db.run('CREATE TABLE metadata (key TEXT PRIMARY KEY, value TEXT)');
+    db.run("INSERT INTO metadata VALUES ('schemaVersion', '3'), ('parserVersion', '1')");
+  }, async (dir) => {
+    const database = new SymbolDatabase();
+    await database.open(dir);
+    assert.deepEqual(database.getBuildInfo(), { schemaVersion: SCHEMA_VERSION, parserVersion: 1, parserBackend: undefined, builtAt: undefined });
+    database.close();
+
+    const columns = await columnsOf(dir, 'symbols');
+    for (const column of ['container', 'storage', 'isDefinition', 'qualifiedName', 'decorators', 'condition']) {
+      assert.ok(columns.includes(column), column);
+    }
+    assert.deepEqual(await columnsOf(dir, 'symbol_refs'), []);
+  });
+});
+
+test('a database from a newer schema is incompatible', async () => {
+  await withDatabaseFile((db) => {
+    db.run('CREATE TABLE metadata (key TEXT PRIMARY KEY, value TEXT)');
+    db.run(`INSERT INTO metadata VALUES ('schemaVersion', '${SCHEMA_VERSION + 1}')`);
+  }, async (dir) => {
+    const database = new SymbolDatabase();
+    await assert.rejects(database.open(dir), (err: unknown) =>
+      err instanceof DatabaseOpenError && err.reason === 'incompatible' && /newer/.test(err.message)
+    );
+    assert.equal(database.isOpen(), false);
+  });
+});
+
+test('a migration that fails leaves the file untouched and reports it incompatible', async () => {
+  await withDatabaseFile((db) => {
+    db.run(LEGACY_SCHEMA);
+    // A calls table of some other shape; its index cannot be created
+    db.run('CREATE TABLE calls (x TEXT)');
+    db.run('CREATE TABLE metadata (key TEXT PRIMARY KEY, value TEXT)');
+    db.run("INSERT INTO metadata VALUES ('schemaVersion', '6')");
+  }, async (dir) => {
+    const before = fs.readFileSync(path.join(dir, '.sourceviewer.db'));
+    const database = new SymbolDatabase();
+    await assert.rejects(database.open(dir), (err: unknown) =>
+      err instanceof DatabaseOpenError && err.reason === 'incompatible' && /calls table/.test(err.message)
+    );
+    assert.equal(database.isOpen(), false);
+    assert.deepEqual(fs.readFileSync(path.join(dir, '.sourceviewer.db')), before);
+  });
+});
+
+test('a damaged file is reported corrupt and can be replaced', async () => {
+  await withDatabaseFile(Buffer.from('SQLite format 3\0 but not really a database'.repeat(40)), async (dir) => {
+    const database = new SymbolDatabase();
+    await assert.rejects(database.open(dir), (err: unknown) => err instanceof DatabaseOpenError && err.reason === 'corrupt');
+    assert.equal(database.isOpen(), false);
+
+    await database.open(dir, true);
+    assert.equal(database.getBuildInfo().schemaVersion, SCHEMA_VERSION);
+    database.close();
+  });
+});
+
+test('a database built before parser versions were recorded still loads', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-viewer-'));
+  try {
+    fs.writeFileSync(path.join(dir, 'a.c'), 'int main(void) { return 0; }\n');
+    const SQL = await initSqlJs();
+    const db = new SQL.Database();
+    db.run(LEGACY_SCHEMA);
+    db.run('INSERT INTO symbols (name, kind, filePath, line, column, projectPath) VALUES (?, ?, ?, ?, ?, ?)',
+      ['main', 'function', path.join(dir, 'a.c'), 1, 5, dir]);
+    fs.writeFileSync(path.join(dir, '.sourceviewer.db'), db.export());
+    db.close();
+
+    const parser = new SymbolParser();
+    assert.equal(await parser.loadSymbolDatabase(dir), true);
+    assert.deepEqual(parser.findDefinition('main').map(s => s.line), [1]);
+
+    // The next build parses every file with the current parser
+    const summary = await new SymbolParser().buildSymbolDatabase(dir);
+    assert.equal(summary.parsedFiles, 1);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('a database from another parser version asks for a rebuild', async () => {
+  await withDatabaseFile((db) => {
+    db.run('CREATE TABLE metadata (key TEXT PRIMARY KEY, value TEXT)');
+    db.run(`INSERT INTO metadata VALUES ('schemaVersion', '${SCHEMA_VERSION}'), ('parserVersion', '${PARSER_VERSION + 1}')`);
+  }, async (dir) => {
+    await assert.rejects(new SymbolParser().loadSymbolDatabase(dir), (err: unknown) =>
+      err instanceof DatabaseOpenError && err.reason === 'incompatible'
+    );
+  });
+});
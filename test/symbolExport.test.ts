@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { formatCsv, formatCtags, formatJson, selectSymbols } from '../src/main/symbolExport';
+import { readTagsFile } from '../src/main/tagsImport';
+import type { Symbol } from '../src/shared/types';
+
+const SOURCE = [
+  'int zeta(int a) { return a; }',
+  'const char *PATH = "a/b\\\\c";  /* a/b\\c */',
+  'struct Box { int width; };',
+  'int Alpha(void);',
+  '',
+].join('\n');
+
+function withProject(run: (dir: string, symbols: Symbol[]) => void): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-viewer-'));
+  const file = path.join(dir, 'src', 'a.c');
+  fs.mkdirSync(path.dirname(file));
+  fs.writeFileSync(file, SOURCE);
+  const symbols: Symbol[] = [
+    { name: 'zeta', kind: 'function', filePath: file, line: 1, column: 5, endLine: 1, signature: 'int zeta(int a)', isDefinition: true },
+    { name: 'PATH', kind: 'variable', filePath: file, line: 2, column: 13, isDefinition: true, storage: 'static' },
+    { name: 'Box', kind: 'struct', filePath: file, line: 3, column: 8, qualifiedName: 'Box' },
+    { name: 'width', kind: 'field', filePath: file, line: 3, column: 18, qualifiedName: 'Box::width', container: 'Box' },
+    { name: 'Alpha', kind: 'function', filePath: file, line: 4, column: 5, signature: 'int Alpha(void)', isDefinition: false },
+  ];
+  try {
+    run(dir, symbols);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('symbols are selected by kind and directory and sorted by name', () => {
+  withProject((dir, symbols) => {
+    assert.deepEqual(selectSymbols(symbols, { format: 'ctags', kinds: [], directory: '' }).map(s => s.name),
+      ['Alpha', 'Box', 'PATH', 'width', 'zeta']);
+    assert.deepEqual(selectSymbols(symbols, { format: 'ctags', kinds: ['function'], directory: path.join(dir, 'src') }).map(s => s.name),
+      ['Alpha', 'zeta']);
+    assert.deepEqual(selectSymbols(symbols, { format: 'ctags', kinds: [], directory: path.join(dir, 'sr') }), []);
+  });
+});
+
+test('ctags output has the !_TAG_ header and sorted, escaped entries', () => {
+  withProject((dir, symbols) => {
+    const tags = formatCtags(selectSymbols(symbols, { format: 'ctags', kinds: [], directory: '' }), dir);
+    const lines = tags.split('\n');
+
+    assert.match(lines[0], /^!_TAG_FILE_FORMAT\t2\t/);
+    assert.match(lines[1], /^!_TAG_FILE_SORTED\t1\t/);
+    assert.match(lines[2], /^!_TAG_PROGRAM_NAME\t/);
+    assert.deepEqual(lines.slice(3, -1).map(line => line.split('\t')[0]), ['Alpha', 'Box', 'PATH', 'width', 'zeta']);
+    assert.equal(lines[lines.length - 1], '');
+
+    assert.equal(lines[3], 'Alpha\tsrc/a.c\t/^int Alpha(void);$/;"\tp\tline:4\tlanguage:C\tsignature:(void)');
+    // "/" ends the pattern and "\" escapes, so both are escaped inside it
+    assert.equal(lines[5], 'PATH\tsrc/a.c\t/^const char *PATH = "a\\/b\\\\\\\\c";  \\/* a\\/b\\\\c *\\/$/;"\tv\tline:2\tlanguage:C\tfile:');
+    assert.equal(lines[6], 'width\tsrc/a.c\t/^struct Box { int width; };$/;"\tm\tline:3\tlanguage:C\tscope:struct:Box');
+    assert.equal(lines[7], 'zeta\tsrc/a.c\t/^int zeta(int a) { return a; }$/;"\tf\tline:1\tlanguage:C\tsignature:(int a)\tend:1');
+  });
+});
+
+test('exported tags read back to the same locations', () => {
+  withProject((dir, symbols) => {
+    fs.writeFileSync(path.join(dir, 'tags'), formatCtags(selectSymbols(symbols, { format: 'ctags', kinds: [], directory: '' }), dir));
+    const imported = readTagsFile(path.join(dir, 'tags'));
+    assert.equal(imported.skipped, 0);
+    assert.deepEqual(imported.symbols.map(s => [s.name, s.line, s.column]), [
+      ['Alpha', 4, 5], ['Box', 3, 8], ['PATH', 2, 13], ['width', 3, 18], ['zeta', 1, 5],
+    ]);
+  });
+});
+
+test('a line that no longer holds the symbol is addressed by number', () => {
+  withProject((dir, symbols) => {
+    const moved = { ...symbols[0], line: 3 };
+    assert.match(formatCtags([moved], dir), /\nzeta\tsrc\/a\.c\t3;"\tf\t/);
+  });
+});
+
+test('CSV quotes commas, quotes and newlines', () => {
+  withProject((dir, symbols) => {
+    const csv = formatCsv([{ ...symbols[0], signature: 'int zeta(int a, "b")', condition: 'defined(A)\n' }], dir);
+    const rows = csv.split('\r\n');
+    assert.equal(rows[0], 'name,kind,filePath,line,column,endLine,endColumn,qualifiedName,container,storage,isDefinition,signature,condition');
+    assert.equal(rows[1], 'zeta,function,src/a.c,1,5,1,,,,,true,"int zeta(int a, ""b"")","defined(A)\n"');
+    assert.equal(rows[2], '');
+  });
+});
+
+test('JSON keeps every field with paths relative to the project', () => {
+  withProject((dir, symbols) => {
+    const json = JSON.parse(formatJson([symbols[3]], dir));
+    assert.deepEqual(json, { root: dir, symbols: [{ ...symbols[3], filePath: 'src/a.c' }] });
+  });
+});
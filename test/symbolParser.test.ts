@@ -0,0 +1,307 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SymbolParser } from '../src/main/symbolParser';
+import type { ParserBackend } from '../src/shared/types';
+
+function writeProject(files: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-viewer-'));
+  Object.entries(files).forEach(([name, content]) => {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), content);
+  });
+  return dir;
+}
+
+// Braces opened differently under #ifdef and #else; every function after them used to be lost
+const UNEVEN_IF = `int first(int a) {
+#ifdef FEATURE_X
+    if (a > 1) {
+#else
+    if (a > 2) {
+#endif
+        return 1;
+    }
+    return 0;
+}
+
+int second(void) { return first(1); }
+
+int third(void) { return second(); }
+`;
+
+const UNEVEN_HEADER = `#ifdef FEATURE_X
+void foo(int a) {
+#else
+void foo(int a, int b) {
+#endif
+    bar();
+}
+
+int second(void) { return 0; }
+
+int third(void) { foo(1); return second(); }
+`;
+
+async function analyzeC(content: string, backend: ParserBackend = 'regex') {
+  const dir = writeProject({ 'a.c': content });
+  try {
+    return await new SymbolParser().analyzeFile(path.join(dir, 'a.c'), 'c', backend);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('functions after an #ifdef/#else with uneven braces are indexed', async () => {
+  const uneven = await analyzeC(UNEVEN_IF);
+  assert.deepEqual(uneven.symbols.map(symbol => symbol.name), ['first', 'second', 'third']);
+
+  const header = await analyzeC(UNEVEN_HEADER);
+  assert.deepEqual(header.symbols.map(symbol => [symbol.name, symbol.signature]), [
+    ['foo', 'void foo(int a)'],
+    ['second', 'int second(void)'],
+    ['third', 'int third(void)'],
+  ]);
+});
+
+test('the tree-sitter backend falls back to the regex parser on uneven #ifdef braces', async () => {
+  const uneven = await analyzeC(UNEVEN_IF, 'tree-sitter');
+  assert.deepEqual(uneven.symbols.map(symbol => symbol.name), ['first', 'second', 'third']);
+
+  const header = await analyzeC(UNEVEN_HEADER, 'tree-sitter');
+  assert.deepEqual(header.symbols.map(symbol => symbol.name), ['foo', 'second', 'third']);
+});
+
+test('body ranges and definitions are right around uneven #ifdef braces', async () => {
+  const content = `int first(int a);\nint second(void);\n\n${UNEVEN_IF}`;
+  const { symbols } = await analyzeC(content);
+  assert.deepEqual(symbols.map(symbol => [symbol.name, symbol.line, symbol.endLine, symbol.isDefinition]), [
+    ['first', 1, 1, false],
+    ['second', 2, 2, false],
+    ['first', 4, 13, true],
+    ['second', 15, 15, true],
+    ['third', 17, 17, true],
+  ]);
+
+  const header = await analyzeC(UNEVEN_HEADER);
+  assert.deepEqual(header.symbols.map(symbol => [symbol.name, symbol.line, symbol.endLine, symbol.isDefinition]), [
+    ['foo', 2, 7, true],
+    ['second', 9, 9, true],
+    ['third', 11, 11, true],
+  ]);
+
+  const dir = writeProject({ 'a.c': content });
+  try {
+    const parser = new SymbolParser();
+    await parser.indexDirectory(dir);
+    // The prototype ranks ahead of the body for Go to Declaration,
+    assert.deepEqual(parser.findDeclaration('second').map(symbol => symbol.line), [2, 15]);
+    // and the body ahead of its prototype for Go to Definition
+    assert.deepEqual(parser.findDefinition('second').map(symbol => symbol.line), [15, 2]);
+    assert.deepEqual(parser.findDefinition('third').map(symbol => symbol.line), [17]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('calls after uneven #ifdef braces go to the function making them', async () => {
+  const uneven = await analyzeC(UNEVEN_IF);
+  assert.deepEqual(uneven.calls.map(call => [call.caller, call.callee, call.line]), [
+    ['second', 'first', 12],
+    ['third', 'second', 14],
+  ]);
+
+  const header = await analyzeC(UNEVEN_HEADER);
+  assert.deepEqual(header.calls.map(call => [call.caller, call.callee, call.line]), [
+    ['foo', 'bar', 6],
+    ['third', 'foo', 11],
+    ['third', 'second', 11],
+  ]);
+
+  const dir = writeProject({ 'a.c': UNEVEN_IF });
+  try {
+    const parser = new SymbolParser();
+    await parser.indexDirectory(dir);
+    const second = parser.prepareCallHierarchy({ symbolName: 'second', currentFilePath: path.join(dir, 'a.c') })!;
+    assert.deepEqual(parser.getIncomingCalls(second).map(item => [item.name, item.line]), [['third', 14]]);
+    assert.deepEqual(parser.getOutgoingCalls(second).map(item => [item.name, item.line]), [['first', 1]]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('alternative definitions with balanced branches are both indexed', async () => {
+  const { symbols } = await analyzeC('#ifdef FEATURE_X\nvoid foo(int a) { }\n#else\nvoid foo(int a, int b) { }\n#endif\n');
+  assert.deepEqual(symbols.map(symbol => [symbol.name, symbol.line, symbol.condition]), [
+    ['foo', 2, 'defined(FEATURE_X)'],
+    ['foo', 4, '!defined(FEATURE_X)'],
+  ]);
+});
+
+test('python definitions start at the name, not inside the keyword', async () => {
+  const dir = writeProject({
+    'a.py': 'class C:\n    async def s(self):\n        pass\n\n    def d(self):\n        pass\n\nclass s:\n    pass\n',
+  });
+  try {
+    const { symbols } = await new SymbolParser().analyzeFile(path.join(dir, 'a.py'), 'python', 'regex');
+    const columns = symbols.map(symbol => [symbol.qualifiedName, symbol.line, symbol.column]);
+    assert.deepEqual(columns, [['C', 1, 7], ['C.s', 2, 15], ['C.d', 5, 9], ['s', 8, 7]]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('builds skip the directories the file tree and watcher ignore', async () => {
+  const dir = writeProject({
+    'a.c': 'int a(void) { return 0; }\n',
+    'build/gen.c': 'int gen(void) { return 0; }\n',
+    'dist/out.c': 'int out(void) { return 0; }\n',
+  });
+  try {
+    const parser = new SymbolParser();
+    const summary = await parser.buildSymbolDatabase(dir);
+    assert.equal(summary.parsedFiles, 1);
+    assert.equal(parser.findDefinition('a').length, 1);
+    assert.equal(parser.findDefinition('gen').length, 0);
+    assert.equal(parser.findDefinition('out').length, 0);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('watcher batches after a build update the index', async () => {
+  const dir = writeProject({ 'a.c': 'int a(void) { return 0; }\n' });
+  try {
+    const parser = new SymbolParser();
+    await parser.buildSymbolDatabase(dir);
+
+    fs.writeFileSync(path.join(dir, 'b.c'), 'int b(void) { return a(); }\n');
+    const first = await parser.applyFileChanges([path.join(dir, 'b.c')]);
+    assert.deepEqual(first.added, [path.join(dir, 'b.c')]);
+
+    fs.writeFileSync(path.join(dir, 'a.c'), 'int a2(void) { return 0; }\n');
+    await parser.applyFileChanges([path.join(dir, 'a.c')]);
+    assert.equal(parser.findDefinition('b').length, 1);
+    assert.equal(parser.findDefinition('a2').length, 1);
+    assert.equal(parser.findDefinition('a').length, 0);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('watcher batches leave the database file alone until there is a change to write', async () => {
+  const dir = writeProject({ 'a.c': 'int a(void) { return 0; }\n' });
+  const dbFile = path.join(dir, '.sourceviewer.db');
+  try {
+    const parser = new SymbolParser();
+    await parser.buildSymbolDatabase(dir);
+    const built = fs.readFileSync(dbFile);
+
+    const later = new Date(Date.now() + 60_000);
+    fs.utimesSync(path.join(dir, 'a.c'), later, later);
+    const touched = await parser.applyFileChanges([path.join(dir, 'a.c')]);
+    assert.deepEqual(touched.changed, []);
+    assert.deepEqual(fs.readFileSync(dbFile), built);
+
+    fs.writeFileSync(path.join(dir, 'a.c'), 'int a2(void) { return 0; }\n');
+    const edited = await parser.applyFileChanges([path.join(dir, 'a.c')]);
+    assert.deepEqual(edited.changed, [path.join(dir, 'a.c')]);
+    assert.equal(parser.findDefinition('a2').length, 1);
+    assert.deepEqual(fs.readFileSync(dbFile), built);
+
+    parser.clearIndex();
+    const reopened = new SymbolParser();
+    assert.equal(await reopened.loadSymbolDatabase(dir), true);
+    assert.equal(reopened.findDefinition('a2').length, 1);
+    assert.equal(reopened.findDefinition('a').length, 0);
+    reopened.clearIndex();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('imported symbols survive the next incremental build', async () => {
+  const dir = writeProject({ 'a.c': 'int a(void) { return 0; }\n' });
+  try {
+    const parser = new SymbolParser();
+    await parser.indexDirectory(dir);
+    const generated = path.join(dir, 'build', 'gen.c');
+    await parser.importSymbols(dir, [{ name: 'gen', kind: 'function', filePath: generated, line: 3, column: 5 }]);
+
+    fs.writeFileSync(path.join(dir, 'b.c'), 'int b(void) { return 0; }\n');
+    const rebuilt = new SymbolParser();
+    const summary = await rebuilt.buildSymbolDatabase(dir);
+    assert.equal(summary.parsedFiles, 1);
+    assert.equal(summary.skippedFiles, 1);
+    assert.deepEqual(rebuilt.findDefinition('gen').map(symbol => symbol.filePath), [generated]);
+    assert.equal(rebuilt.findDefinition('a').length, 1);
+    assert.equal(rebuilt.findDefinition('b').length, 1);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('definitions rank by the scopes around the cursor, following file changes', async () => {
+  const source = [
+    'struct Foo {',
+    '  void init() {}',
+    '  void run() { init(); }',
+    '};',
+    'struct Bar {',
+    '  void init() {}',
+    '  void run() { init(); }',
+    '};',
+    '',
+  ].join('\n');
+  const dir = writeProject({ 'a.cpp': source });
+  const file = path.join(dir, 'a.cpp');
+  try {
+    const parser = new SymbolParser();
+    await parser.indexDirectory(dir);
+    assert.equal(parser.findDefinition('init', { currentFilePath: file, line: 3 })[0].qualifiedName, 'Foo::init');
+    assert.equal(parser.findDefinition('init', { currentFilePath: file, line: 7 })[0].qualifiedName, 'Bar::init');
+
+    // Foo moves down; the cached per-file scopes must follow
+    fs.writeFileSync(file, '\n\n\n\n' + source);
+    await parser.applyFileChanges([file]);
+    assert.equal(parser.findDefinition('init', { currentFilePath: file, line: 7 })[0].qualifiedName, 'Foo::init');
+    assert.equal(parser.findDefinition('init', { currentFilePath: file, line: 11 })[0].qualifiedName, 'Bar::init');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('outgoing calls resolve each callee in the scopes of the calling function', async () => {
+  const dir = writeProject({
+    'a.cpp': [
+      'void helper() {}',
+      'struct Foo {',
+      '  void init() {}',
+      '  void run() { init(); helper(); init(); }',
+      '};',
+      'struct Bar {',
+      '  void init() {}',
+      '  void run() { init(); }',
+      '};',
+      '',
+    ].join('\n'),
+  });
+  const file = path.join(dir, 'a.cpp');
+  try {
+    const parser = new SymbolParser();
+    await parser.indexDirectory(dir);
+    const fooRun = parser.prepareCallHierarchy({ symbolName: 'run', currentFilePath: file, line: 4 })!;
+    assert.equal(fooRun.qualifiedName, 'Foo::run');
+    assert.deepEqual(parser.getOutgoingCalls(fooRun).map(item => [item.qualifiedName, item.line, item.callSites.length]), [
+      ['Foo::init', 3, 2],
+      ['helper', 1, 1],
+    ]);
+
+    const barRun = parser.prepareCallHierarchy({ symbolName: 'run', currentFilePath: file, line: 8 })!;
+    assert.deepEqual(parser.getOutgoingCalls(barRun).map(item => [item.qualifiedName, item.line]), [['Bar::init', 7]]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
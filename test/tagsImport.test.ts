@@ -0,0 +1,142 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readTagsFile } from '../src/main/tagsImport';
+import { SymbolParser } from '../src/main/symbolParser';
+
+const SOURCE = [
+  '#define MAX 10',
+  'struct point {',
+  '  int x;',
+  '};',
+  'static int helper(int a)',
+  '{',
+  '  return a;',
+  '}',
+  'extern int gval;',
+  '',
+].join('\n');
+
+const PYTHON_SOURCE = 'from os import path\n\nclass A:\n    def run(self):\n        pass\n';
+
+function writeProject(files: Record<string, string | Buffer>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-viewer-'));
+  Object.entries(files).forEach(([name, content]) => fs.writeFileSync(path.join(dir, name), content));
+  return dir;
+}
+
+test('ctags entries located by pattern or line number', () => {
+  const dir = writeProject({
+    'x.c': SOURCE,
+    'y.py': PYTHON_SOURCE,
+    tags: [
+      '!_TAG_FILE_FORMAT\t2\t/extended format/',
+      'MAX\tx.c\t/^#define MAX 10$/;"\td\tline:1',
+      'helper\tx.c\t5;"\tf\ttyperef:typename:int\tfile:\tsignature:(int a)\tend:8',
+      'x\tx.c\t/^  int x;$/;"\tm\tstruct:point',
+      'gval\tx.c\t/^extern int gval;$/;"\tx',
+      'point\tx.c\t/^struct point {$/;"\ts',
+      'local\tx.c\t7;"\tl',
+      'A\ty.py\t/^class A:$/;"\tc',
+      'run\ty.py\t/^    def run(self):$/;"\tm\tclass:A',
+      'path\ty.py\t/^from os import path$/;"\tI\tnameref:unknown:path',
+      'A.run\ty.py\t/^    def run(self):$/;"\tm\tclass:A',
+      'gone\tx.c\t/^int gone(void)$/;"\tf',
+      '',
+    ].join('\n'),
+  });
+  try {
+    const { format, symbols, skipped } = readTagsFile(path.join(dir, 'tags'));
+    assert.equal(format, 'ctags');
+    // A local, a qualified duplicate and a pattern no longer in the source
+    assert.equal(skipped, 3);
+    assert.deepEqual(symbols.map(s => [s.name, s.kind, path.basename(s.filePath), s.line, s.column, s.qualifiedName]), [
+      ['MAX', 'macro', 'x.c', 1, 9, 'MAX'],
+      ['helper', 'function', 'x.c', 5, 12, 'helper'],
+      ['x', 'field', 'x.c', 3, 7, 'point::x'],
+      ['gval', 'variable', 'x.c', 9, 12, 'gval'],
+      ['point', 'struct', 'x.c', 2, 8, 'point'],
+      ['A', 'class', 'y.py', 3, 7, 'A'],
+      ['run', 'method', 'y.py', 4, 9, 'A.run'],
+      ['path', 'import', 'y.py', 1, 16, 'path'],
+    ]);
+
+    const helper = symbols[1];
+    assert.equal(helper.endLine, 8);
+    assert.equal(helper.storage, 'static');
+    assert.equal(helper.isDefinition, true);
+    assert.equal(helper.signature, 'static int helper(int a)');
+    assert.equal(symbols[3].storage, 'extern');
+    assert.equal(symbols[3].isDefinition, false);
+    assert.deepEqual([symbols[7].importModule, symbols[7].importName], ['os', 'path']);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('cscope definitions with their body ranges and members', () => {
+  const dir = writeProject({ 'x.c': SOURCE });
+  const cscope = [
+    `cscope 15 ${dir} -c 0000000000`,
+    '\t@x.c', '',
+    '1 #define ', '\t#MAX', ' 10', '',
+    '2 struct ', '\tspoint', ' {', '',
+    '3 int ', '\tmx', ';', '',
+    '4 }', '\t;', ';', '',
+    '5 static int ', '\t$helper', '(int ', 'a', ')', '',
+    '7 return ', 'a', ';', '',
+    '8 ', '\t}', '}',
+    '\t@', '',
+  ].join('\n');
+  fs.writeFileSync(path.join(dir, 'cscope.out'), cscope);
+  try {
+    const { format, symbols } = readTagsFile(path.join(dir, 'cscope.out'));
+    assert.equal(format, 'cscope');
+    assert.deepEqual(symbols.map(s => [s.name, s.kind, s.line, s.column, s.qualifiedName, s.endLine]), [
+      ['MAX', 'macro', 1, 9, 'MAX', undefined],
+      ['point', 'struct', 2, 8, 'point', undefined],
+      ['x', 'field', 3, 5, 'point::x', undefined],
+      ['helper', 'function', 5, 12, 'helper', 8],
+    ]);
+    assert.equal(symbols[3].filePath, path.join(dir, 'x.c'));
+    assert.equal(symbols[3].signature, 'static int helper(int a)');
+    assert.equal(symbols[3].storage, 'static');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('compressed cscope lines are expanded', () => {
+  const dir = writeProject({ 'x.c': SOURCE });
+  // 0x12 is the "int " keyword, 0x18 "static "
+  const cscope = Buffer.from(`cscope 15 ${dir} 0000000000\n\t@x.c\n\n5 \x18\x12\n\t$helper\n(\x12\na\n)\n\n\t@\n`, 'latin1');
+  fs.writeFileSync(path.join(dir, 'cscope.out'), cscope);
+  try {
+    const { symbols } = readTagsFile(path.join(dir, 'cscope.out'));
+    assert.deepEqual(symbols.map(s => [s.name, s.column, s.signature]), [['helper', 12, 'static int helper(int a)']]);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('imported tags are kept by the next incremental build', async () => {
+  const dir = writeProject({
+    'x.c': SOURCE,
+    tags: 'gen_init\tbuild/gen.c\t12;"\tf\n',
+  });
+  try {
+    const parser = new SymbolParser();
+    await parser.indexDirectory(dir);
+    await parser.importSymbols(dir, readTagsFile(path.join(dir, 'tags')).symbols);
+
+    const rebuilt = new SymbolParser();
+    const summary = await rebuilt.buildSymbolDatabase(dir);
+    assert.equal(summary.parsedFiles, 0);
+    assert.deepEqual(rebuilt.findDefinition('gen_init').map(s => [s.filePath, s.line]), [[path.join(dir, 'build', 'gen.c'), 12]]);
+    assert.equal(rebuilt.findDefinition('helper').length, 1);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});